@@ -22,10 +22,14 @@ import AgentEdit from './components/AgentEdit';
 import ControlTray from './components/console/control-tray/ControlTray';
 import ErrorScreen from './components/demo/ErrorSreen';
 import BasicFaceDisplay from './components/demo/BasicFaceDisplay';
+import Transcript from './components/demo/keynote-companion/Transcript';
+import PanelConsole from './components/demo/PanelConsole';
 import Header from './components/Header';
 import UserSettings from './components/UserSettings';
 import { LiveAPIProvider } from './contexts/LiveAPIContext';
 import { useUI, useUser } from './lib/state';
+import { isShareHash, parseShareHash } from './lib/agent-sharing';
+import { useEffect } from 'react';
 
 const API_KEY = process.env.API_KEY;
 console.log('API_KEY available:', !!API_KEY);
@@ -41,7 +45,34 @@ if (typeof API_KEY !== 'string') {
  * Manages video streaming state and provides controls for webcam/screen capture.
  */
 function App() {
-  const { showUserConfig, showAgentEdit } = useUI();
+  const {
+    showUserConfig,
+    showAgentEdit,
+    showPanel,
+    setSharedAgent,
+    setSharedAgentError,
+  } = useUI();
+
+  // Offer to add an agent shared through the URL hash
+  useEffect(() => {
+    const { hash } = window.location;
+    if (!isShareHash(hash)) {
+      return;
+    }
+    try {
+      setSharedAgent(parseShareHash(hash));
+      setSharedAgentError(null);
+    } catch (error) {
+      console.error('Could not read shared agent:', error);
+      setSharedAgentError((error as Error).message);
+    }
+    // Read once, so a broken link does not fail again on every reload
+    window.history.replaceState(
+      null,
+      '',
+      window.location.pathname + window.location.search
+    );
+  }, [setSharedAgent, setSharedAgentError]);
   return (
     <div className="App">
       <LiveAPIProvider apiKey={API_KEY}>
@@ -52,11 +83,20 @@ function App() {
         {showAgentEdit && <AgentEdit />}
         <div className="streaming-console">
           <main>
-            <div className="main-app-area">
-              <BasicFaceDisplay />
-            </div>
+            {showPanel ? (
+              <div className="main-app-area">
+                <PanelConsole apiKey={API_KEY} />
+              </div>
+            ) : (
+              <>
+                <div className="main-app-area">
+                  <BasicFaceDisplay />
+                  <Transcript />
+                </div>
 
-            <ControlTray></ControlTray>
+                <ControlTray></ControlTray>
+              </>
+            )}
           </main>
         </div>
       </LiveAPIProvider>
@@ -2,22 +2,58 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { useRef } from 'react';
+import { useRef, useState } from 'react';
 import {
+  ACCESSORIES,
+  Accessory,
   Agent,
+  AgentAppearance,
   AGENT_COLORS,
+  BACKGROUND_SHAPES,
+  BackgroundShape,
+  DEFAULT_APPEARANCE,
+  AgentLanguage,
   INTERLOCUTOR_VOICE,
   INTERLOCUTOR_VOICES,
+  LANGUAGES,
 } from '@/lib/presets/agents';
 import Modal from './Modal';
 import c from 'classnames';
-import { useAgent, useUI } from '@/lib/state';
+import { useAgent, usePromptSettings, useUI } from '@/lib/state';
+import { getRegisteredTools } from '@/lib/tools';
+import { createShareLink, serializeAgents } from '@/lib/agent-sharing';
+import { downloadBlob } from '@/lib/utils';
+import {
+  DEFAULT_AVATAR_STYLE,
+  getAvatarStyles,
+} from './demo/avatar/avatar-renderers';
+import AvatarPreview from './demo/avatar/AvatarPreview';
+import PersonalityEditor from './PersonalityEditor';
+import TemplateEditor from './TemplateEditor';
+import { DEFAULT_SYSTEM_TEMPLATE } from '@/lib/prompts';
+import { MessageKey, useTranslation } from '@/lib/i18n';
+
+const APPEARANCE_SCALES: Array<{
+  key: 'eyeSpacing' | 'eyeSize' | 'mouthWidth';
+  label: MessageKey;
+}> = [
+  { key: 'eyeSpacing', label: 'agent.eyeSpacing' },
+  { key: 'eyeSize', label: 'agent.eyeSize' },
+  { key: 'mouthWidth', label: 'agent.mouthWidth' },
+];
 
 export default function EditAgent() {
   const agent = useAgent(state => state.current);
   const updateAgent = useAgent(state => state.update);
+  const resetPreset = useAgent(state => state.resetPreset);
+  const isPreset = useAgent(state =>
+    state.availablePresets.some(a => a.id === agent.id)
+  );
   const nameInput = useRef(null);
+  const [linkCopied, setLinkCopied] = useState(false);
   const { setShowAgentEdit } = useUI();
+  const defaultTemplate = usePromptSettings(state => state.template);
+  const t = useTranslation();
 
   function onClose() {
     setShowAgentEdit(false);
@@ -27,6 +63,55 @@ export default function EditAgent() {
     updateAgent(agent.id, adjustments);
   }
 
+  function exportAgent() {
+    downloadBlob(
+      new Blob([serializeAgents([agent])], { type: 'application/json' }),
+      `${agent.id}.json`
+    );
+  }
+
+  async function copyShareLink() {
+    try {
+      await navigator.clipboard.writeText(createShareLink(agent));
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Could not copy share link:', error);
+    }
+  }
+
+  const avatarStyle =
+    getAvatarStyles().find(
+      style => style.name === (agent.avatar?.renderer || DEFAULT_AVATAR_STYLE)
+    ) || getAvatarStyles()[0];
+
+  function setAvatarOption(key: string, value: string | number) {
+    updateCurrentAgent({
+      avatar: {
+        renderer: avatarStyle.name,
+        options: { ...agent.avatar?.options, [key]: value },
+      },
+    });
+  }
+
+  const appearance = agent.appearance || DEFAULT_APPEARANCE;
+
+  function updateAppearance(adjustments: Partial<AgentAppearance>) {
+    updateCurrentAgent({ appearance: { ...appearance, ...adjustments } });
+  }
+
+  function toggleAccessory(accessory: Accessory, enabled: boolean) {
+    const accessories = appearance.accessories.filter(a => a !== accessory);
+    updateAppearance({
+      accessories: enabled ? [...accessories, accessory] : accessories,
+    });
+  }
+
+  function toggleTool(name: string, enabled: boolean) {
+    const tools = (agent.tools || []).filter(tool => tool !== name);
+    updateCurrentAgent({ tools: enabled ? [...tools, name] : tools });
+  }
+
   return (
     <Modal onClose={() => onClose()}>
       <div className="editAgent">
@@ -36,26 +121,40 @@ export default function EditAgent() {
               <input
                 className="largeInput"
                 type="text"
-                placeholder="Name"
+                placeholder={t('agent.name')}
                 value={agent.name}
                 onChange={e => updateCurrentAgent({ name: e.target.value })}
                 ref={nameInput}
               />
             </div>
 
-            <div>
-              <label>
-                Personality
-                <textarea
-                  value={agent.personality}
+            <PersonalityEditor agent={agent} onChange={updateCurrentAgent} />
+
+            <details>
+              <summary>{t('agent.templateSection')}</summary>
+              <label className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={agent.promptTemplate !== undefined}
                   onChange={e =>
-                    updateCurrentAgent({ personality: e.target.value })
+                    updateCurrentAgent({
+                      promptTemplate: e.target.checked
+                        ? defaultTemplate || DEFAULT_SYSTEM_TEMPLATE
+                        : undefined,
+                    })
                   }
-                  rows={7}
-                  placeholder="How should I act? Whatʼs my purpose? How would you describe my personality?"
                 />
+                {t('agent.ownTemplate')}
               </label>
-            </div>
+              {agent.promptTemplate !== undefined && (
+                <TemplateEditor
+                  value={agent.promptTemplate}
+                  onChange={promptTemplate =>
+                    updateCurrentAgent({ promptTemplate })
+                  }
+                />
+              )}
+            </details>
           </form>
         </div>
 
@@ -73,10 +172,77 @@ export default function EditAgent() {
                   />
                 </li>
               ))}
+              <li
+                className={c('customColor', {
+                  active: !AGENT_COLORS.includes(agent.bodyColor),
+                })}
+              >
+                <input
+                  type="color"
+                  title={t('agent.customColor')}
+                  value={agent.bodyColor}
+                  onChange={e =>
+                    updateCurrentAgent({ bodyColor: e.target.value })
+                  }
+                />
+              </li>
             </ul>
           </div>
+          <div className="appearanceEditor">
+            <AvatarPreview agent={agent} />
+            <div>
+              {APPEARANCE_SCALES.map(({ key, label }) => (
+                <label key={key}>
+                  {t(label)}
+                  <input
+                    type="range"
+                    min={0.5}
+                    max={2}
+                    step={0.05}
+                    value={appearance[key]}
+                    onChange={e =>
+                      updateAppearance({ [key]: Number(e.target.value) })
+                    }
+                  />
+                </label>
+              ))}
+              <label>
+                {t('agent.background')}
+                <select
+                  value={appearance.background}
+                  onChange={e =>
+                    updateAppearance({
+                      background: e.target.value as BackgroundShape,
+                    })
+                  }
+                >
+                  {BACKGROUND_SHAPES.map(shape => (
+                    <option key={shape} value={shape}>
+                      {t(`agent.background.${shape}`)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <ul>
+                {ACCESSORIES.map(accessory => (
+                  <li key={accessory}>
+                    <label className="checkbox">
+                      <input
+                        type="checkbox"
+                        checked={appearance.accessories.includes(accessory)}
+                        onChange={e =>
+                          toggleAccessory(accessory, e.target.checked)
+                        }
+                      />
+                      {t(`agent.accessory.${accessory}`)}
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
           <div className="voicePicker">
-            Voice
+            {t('agent.voice')}
             <select
               value={agent.voice}
               onChange={e => {
@@ -92,9 +258,113 @@ export default function EditAgent() {
               ))}
             </select>
           </div>
+          <div className="voicePicker">
+            {t('agent.language')}
+            <select
+              value={agent.language || ''}
+              onChange={e =>
+                updateCurrentAgent({
+                  language: (e.target.value as AgentLanguage) || undefined,
+                })
+              }
+            >
+              <option value="">{t('agent.automatic')}</option>
+              {LANGUAGES.map(({ code, nativeName }) => (
+                <option key={code} value={code}>
+                  {nativeName}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="voicePicker">
+            {t('agent.avatar')}
+            <select
+              value={avatarStyle.name}
+              onChange={e =>
+                updateCurrentAgent({ avatar: { renderer: e.target.value } })
+              }
+            >
+              {getAvatarStyles().map(style => (
+                <option key={style.name} value={style.name}>
+                  {t(style.label)}
+                </option>
+              ))}
+            </select>
+          </div>
+          {avatarStyle.options?.map(option => (
+            <div className="voicePicker" key={option.key}>
+              {t(option.label)}
+              <select
+                value={agent.avatar?.options?.[option.key] ?? option.defaultValue}
+                onChange={e => {
+                  const choice = option.choices.find(
+                    ({ value }) => String(value) === e.target.value
+                  );
+                  if (choice) setAvatarOption(option.key, choice.value);
+                }}
+              >
+                {option.choices.map(({ value, label }) => (
+                  <option key={value} value={value}>
+                    {t(label)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+          <div className="voicePicker">
+            {t('agent.volume')}
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={agent.volume ?? 1}
+              onChange={e =>
+                updateCurrentAgent({ volume: Number(e.target.value) })
+              }
+            />
+          </div>
+          <div className="toolPicker">
+            {t('agent.tools')}
+            <ul>
+              {getRegisteredTools().map(tool => (
+                <li key={tool.name}>
+                  <label
+                    className="checkbox"
+                    title={tool.label ? t(tool.label) : tool.description}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={agent.tools?.includes(tool.name) || false}
+                      onChange={e => toggleTool(tool.name, e.target.checked)}
+                    />
+                    {tool.name}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+        <div className="shareActions">
+          <button onClick={() => exportAgent()} className="button">
+            <span className="icon">download</span> {t('agent.export')}
+          </button>
+          <button onClick={() => copyShareLink()} className="button">
+            <span className="icon">link</span>
+            {linkCopied ? t('agent.linkCopied') : t('agent.copyShareLink')}
+          </button>
         </div>
+        {isPreset && (
+          <button
+            onClick={() => resetPreset(agent.id)}
+            className="button resetButton"
+          >
+            <span className="icon">restart_alt</span>{' '}
+            {t('agent.resetToDefault')}
+          </button>
+        )}
         <button onClick={() => onClose()} className="button primary">
-          Let’s go!
+          {t('agent.letsGo')}
         </button>
       </div>
     </Modal>
@@ -4,16 +4,45 @@
 */
 import { Agent, createNewAgent } from '@/lib/presets/agents';
 import { useAgent, useUI, useUser } from '@/lib/state';
+import { parseAgentFile, serializeAgents } from '@/lib/agent-sharing';
+import { downloadBlob } from '@/lib/utils';
+import { useAgentName, useTranslation } from '@/lib/i18n';
 import c from 'classnames';
-import { useEffect, useState } from 'react';
+import { ChangeEvent, useEffect, useRef, useState } from 'react';
 
 export default function Header() {
-  const { showUserConfig, setShowUserConfig, setShowAgentEdit } = useUI();
+  const {
+    showUserConfig,
+    setShowUserConfig,
+    setShowAgentEdit,
+    sharedAgent,
+    setSharedAgent,
+    sharedAgentError,
+    setSharedAgentError,
+    showPanel,
+    setShowPanel,
+  } = useUI();
   const { name } = useUser();
-  const { current, setCurrent, availablePresets, availablePersonal, addAgent } =
-    useAgent();
+  const {
+    current,
+    setCurrent,
+    availablePresets,
+    availablePersonal,
+    addAgent,
+    importAgents,
+  } = useAgent();
+  const t = useTranslation();
+  const agentName = useAgentName();
 
   let [showRoomList, setShowRoomList] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (sharedAgent || sharedAgentError) {
+      setShowRoomList(true);
+    }
+  }, [sharedAgent, sharedAgentError]);
 
   useEffect(() => {
     const closeRoomList = () => setShowRoomList(false);
@@ -30,6 +59,40 @@ export default function Header() {
     setShowAgentEdit(true);
   }
 
+  function addSharedAgent() {
+    if (!sharedAgent) return;
+    const [agent] = importAgents([sharedAgent]);
+    setCurrent(agent);
+    setSharedAgent(null);
+  }
+
+  function exportAgents() {
+    downloadBlob(
+      new Blob([serializeAgents(availablePersonal)], {
+        type: 'application/json',
+      }),
+      'chatterbots.json'
+    );
+  }
+
+  async function onImportFile(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const agents = parseAgentFile(JSON.parse(await file.text()));
+      importAgents(agents);
+      setImportError(null);
+    } catch (error) {
+      console.error('Could not import agents:', error);
+      setImportError(
+        error instanceof SyntaxError
+          ? t('header.invalidJson')
+          : (error as Error).message
+      );
+    }
+  }
+
   return (
     <header>
       <div className="roomInfo">
@@ -41,7 +104,7 @@ export default function Header() {
             }}
           >
             <h1 className={c({ active: showRoomList })}>
-              {current.name}
+              {agentName(current)}
               <span className="icon">arrow_drop_down</span>
             </h1>
           </button>
@@ -50,13 +113,56 @@ export default function Header() {
             onClick={() => setShowAgentEdit(true)}
             className="button createButton"
           >
-            <span className="icon">edit</span> Edit
+            <span className="icon">edit</span> {t('header.edit')}
+          </button>
+
+          <button
+            onClick={() => setShowPanel(!showPanel)}
+            className={c('button panelButton', { active: showPanel })}
+          >
+            <span className="icon">groups</span>
+            {showPanel ? t('header.exitPanel') : t('header.panel')}
           </button>
         </div>
 
         <div className={c('roomList', { active: showRoomList })}>
+          {(sharedAgent || sharedAgentError) && (
+            <div>
+              <h3>{t('header.sharedWithYou')}</h3>
+              {sharedAgent && (
+                <ul>
+                  <li>
+                    <button
+                      onClick={() => {
+                        addSharedAgent();
+                      }}
+                    >
+                      <span className="icon">add</span>
+                      {sharedAgent.name}
+                    </button>
+                  </li>
+                </ul>
+              )}
+              {sharedAgentError && (
+                <p className="importError">
+                  {t('header.invalidShareLink', { reason: sharedAgentError })}
+                </p>
+              )}
+              <button
+                className="newRoomButton"
+                onClick={() => {
+                  setSharedAgent(null);
+                  setSharedAgentError(null);
+                }}
+              >
+                <span className="icon">close</span>
+                {t('header.dismiss')}
+              </button>
+            </div>
+          )}
+
           <div>
-            <h3>Presets</h3>
+            <h3>{t('header.presets')}</h3>
             <ul>
               {availablePresets
                 .filter(agent => agent.id !== current.id)
@@ -70,7 +176,7 @@ export default function Header() {
                         changeAgent(agent);
                       }}
                     >
-                      {agent.name}
+                      {agentName(agent)}
                     </button>
                   </li>
                 ))}
@@ -78,7 +184,7 @@ export default function Header() {
           </div>
 
           <div>
-            <h3>Your ChatterBots</h3>
+            <h3>{t('header.yourChatterBots')}</h3>
             {
               <ul>
                 {availablePersonal.length ? (
@@ -94,7 +200,7 @@ export default function Header() {
                     </li>
                   ))
                 ) : (
-                  <p>None yet.</p>
+                  <p>{t('header.noneYet')}</p>
                 )}
               </ul>
             }
@@ -104,8 +210,34 @@ export default function Header() {
                 addNewChatterBot();
               }}
             >
-              <span className="icon">add</span>New ChatterBot
+              <span className="icon">add</span>
+              {t('header.newChatterBot')}
             </button>
+            <div className="roomListActions">
+              <button
+                onClick={e => {
+                  e.stopPropagation();
+                  importInput.current?.click();
+                }}
+              >
+                <span className="icon">upload</span>
+                {t('header.import')}
+              </button>
+              {availablePersonal.length > 0 && (
+                <button onClick={exportAgents}>
+                  <span className="icon">download</span>
+                  {t('header.exportAll')}
+                </button>
+              )}
+              <input
+                ref={importInput}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={onImportFile}
+              />
+            </div>
+            {importError && <p className="importError">{importError}</p>}
           </div>
         </div>
       </div>
@@ -113,7 +245,7 @@ export default function Header() {
         className="userSettingsButton"
         onClick={() => setShowUserConfig(!showUserConfig)}
       >
-        <p className="user-name">{name || 'Your name'}</p>
+        <p className="user-name">{name || t('header.yourName')}</p>
         <span className="icon">tune</span>
       </button>
     </header>
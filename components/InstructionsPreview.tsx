@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Agent } from '@/lib/presets/agents';
+import { createSystemInstructions } from '@/lib/prompts';
+import { TemplateError } from '@/lib/prompt-template';
+import { usePromptSettings, useUser } from '@/lib/state';
+
+/**
+ * Shows the system instructions an agent would start a conversation with,
+ * or what is wrong with its template.
+ */
+export default function InstructionsPreview({ agent }: { agent: Agent }) {
+  const user = useUser();
+  const { template, variables } = usePromptSettings();
+
+  let instructions: string;
+  try {
+    instructions = createSystemInstructions(agent, user, {
+      template,
+      variables,
+    });
+  } catch (error) {
+    if (!(error instanceof TemplateError)) throw error;
+    return <pre className="instructionsPreview error">{error.message}</pre>;
+  }
+  return <pre className="instructionsPreview">{instructions}</pre>;
+}
@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Agent, EMPTY_PROFILE, PersonalityProfile } from '@/lib/presets/agents';
+import { compilePersonality } from '@/lib/prompts';
+import { MessageKey, useTranslation } from '@/lib/i18n';
+import InstructionsPreview from './InstructionsPreview';
+
+const LIST_FIELDS: Array<{
+  key: 'knowledgeDomains' | 'catchphrases' | 'topicsToAvoid';
+  label: MessageKey;
+  placeholder: MessageKey;
+}> = [
+  {
+    key: 'knowledgeDomains',
+    label: 'personality.knowledge',
+    placeholder: 'personality.knowledgePlaceholder',
+  },
+  {
+    key: 'catchphrases',
+    label: 'personality.catchphrases',
+    placeholder: 'personality.catchphrasesPlaceholder',
+  },
+  {
+    key: 'topicsToAvoid',
+    label: 'personality.topicsToAvoid',
+    placeholder: 'personality.topicsToAvoidPlaceholder',
+  },
+];
+
+/**
+ * Edits an agent's personality field by field, or as raw text for full
+ * control, and previews the system instructions it turns into.
+ */
+export default function PersonalityEditor({
+  agent,
+  onChange,
+}: {
+  agent: Agent;
+  onChange: (adjustments: Partial<Agent>) => void;
+}) {
+  const { profile } = agent;
+  const t = useTranslation();
+
+  function updateProfile(adjustments: Partial<PersonalityProfile>) {
+    onChange({ profile: { ...EMPTY_PROFILE, ...profile, ...adjustments } });
+  }
+
+  function setMode(mode: string) {
+    if (mode === 'raw' && profile) {
+      // Start the raw text from what the profile compiled to
+      onChange({
+        personality: compilePersonality(profile),
+        profile: undefined,
+      });
+    } else if (mode === 'builder' && !profile) {
+      onChange({ profile: { ...EMPTY_PROFILE, role: agent.personality } });
+    }
+  }
+
+  function updateExample(
+    index: number,
+    adjustments: Partial<PersonalityProfile['examples'][number]>
+  ) {
+    updateProfile({
+      examples: profile!.examples.map((example, i) =>
+        i === index ? { ...example, ...adjustments } : example
+      ),
+    });
+  }
+
+  return (
+    <div className="personalityEditor">
+      <label className="personalityMode">
+        {t('personality.label')}
+        <select
+          value={profile ? 'builder' : 'raw'}
+          onChange={e => setMode(e.target.value)}
+        >
+          <option value="builder">{t('personality.builder')}</option>
+          <option value="raw">{t('personality.raw')}</option>
+        </select>
+      </label>
+
+      {profile ? (
+        <>
+          <label>
+            {t('personality.role')}
+            <textarea
+              value={profile.role}
+              onChange={e => updateProfile({ role: e.target.value })}
+              rows={3}
+              placeholder={t('personality.rolePlaceholder')}
+            />
+          </label>
+          <label>
+            {t('personality.speakingStyle')}
+            <input
+              type="text"
+              value={profile.speakingStyle}
+              onChange={e => updateProfile({ speakingStyle: e.target.value })}
+              placeholder={t('personality.speakingStylePlaceholder')}
+            />
+          </label>
+          <label>
+            {t('personality.wordLimit')}
+            <input
+              type="number"
+              min={0}
+              step={5}
+              value={profile.wordLimit || ''}
+              onChange={e =>
+                updateProfile({
+                  wordLimit: Math.max(0, Math.round(Number(e.target.value))),
+                })
+              }
+              placeholder={t('personality.noLimit')}
+            />
+          </label>
+          {LIST_FIELDS.map(({ key, label, placeholder }) => (
+            <label key={key}>
+              {t(label)}
+              <textarea
+                value={profile[key].join('\n')}
+                onChange={e =>
+                  updateProfile({ [key]: e.target.value.split('\n') })
+                }
+                rows={3}
+                placeholder={t(placeholder)}
+              />
+            </label>
+          ))}
+          <div className="personalityExamples">
+            {t('personality.examples')}
+            {profile.examples.map((example, i) => (
+              <div key={i}>
+                <input
+                  type="text"
+                  value={example.user}
+                  onChange={e => updateExample(i, { user: e.target.value })}
+                  placeholder={t('personality.userSays')}
+                />
+                <input
+                  type="text"
+                  value={example.agent}
+                  onChange={e => updateExample(i, { agent: e.target.value })}
+                  placeholder={t('personality.agentAnswers')}
+                />
+                <button
+                  type="button"
+                  className="button"
+                  onClick={() =>
+                    updateProfile({
+                      examples: profile.examples.filter((_, j) => j !== i),
+                    })
+                  }
+                  title={t('personality.removeExample')}
+                >
+                  <span className="icon">delete</span>
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              className="button"
+              onClick={() =>
+                updateProfile({
+                  examples: [...profile.examples, { user: '', agent: '' }],
+                })
+              }
+            >
+              <span className="icon">add</span> {t('personality.addExample')}
+            </button>
+          </div>
+        </>
+      ) : (
+        <textarea
+          value={agent.personality}
+          onChange={e => onChange({ personality: e.target.value })}
+          rows={7}
+          placeholder={t('personality.rawPlaceholder')}
+        />
+      )}
+
+      <details>
+        <summary>{t('personality.preview')}</summary>
+        <InstructionsPreview agent={agent} />
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BUILT_IN_VARIABLES } from '@/lib/prompts';
+import { usePromptSettings } from '@/lib/state';
+import { useTranslation } from '@/lib/i18n';
+
+/**
+ * A text area for a system instructions template, listing the variables
+ * the template can use.
+ */
+export default function TemplateEditor({
+  value,
+  onChange,
+}: {
+  value: string;
+  onChange: (template: string) => void;
+}) {
+  const variables = usePromptSettings(state => state.variables);
+  const t = useTranslation();
+
+  return (
+    <div className="templateEditor">
+      <textarea
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        rows={10}
+        spellCheck={false}
+      />
+      <p>
+        <code>{'{{name}}'}</code> {t('template.variableHint')}
+        <br />
+        <code>{'{{#if name}}…{{else}}…{{/if}}'}</code>{' '}
+        {t('template.sectionHint')}
+      </p>
+      <ul>
+        {BUILT_IN_VARIABLES.map(({ name, description }) => (
+          <li key={name} title={description}>
+            <code>{name}</code>
+          </li>
+        ))}
+        {Object.keys(variables).map(name => (
+          <li key={name} title={t('template.customVariable')}>
+            <code>{name}</code>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -2,24 +2,81 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import { useState } from 'react';
 import Modal from './Modal';
-import { useUI, useUser } from '@/lib/state';
+import {
+  useAgent,
+  useAudioSettings,
+  usePromptSettings,
+  useUI,
+  useUser,
+} from '@/lib/state';
+import { AudioInputOptions } from '@/lib/audio-recorder';
+import { useMediaDevices } from '@/hooks/media/use-media-devices';
+import { TURN_DETECTION_MODES, TurnDetection } from '@/lib/live-config';
+import { DEFAULT_FADE_OUT_TIME } from '@/lib/audio-streamer';
+import { BUILT_IN_VARIABLES, DEFAULT_SYSTEM_TEMPLATE } from '@/lib/prompts';
+import { VARIABLE_NAME } from '@/lib/prompt-template';
+import TemplateEditor from './TemplateEditor';
+import InstructionsPreview from './InstructionsPreview';
+import { MessageKey, useTranslation } from '@/lib/i18n';
+
+const VIDEO_FPS_OPTIONS = [0.5, 1, 2, 5];
+
+const FADE_OUT_OPTIONS: Array<{ value: number; label: MessageKey }> = [
+  { value: 0, label: 'settings.fadeNone' },
+  { value: 0.1, label: 'settings.fadeShort' },
+  { value: 0.4, label: 'settings.fadeMedium' },
+  { value: 1, label: 'settings.fadeLong' },
+];
+
+const VOICE_PROCESSING_OPTIONS: Array<{
+  key: keyof Omit<AudioInputOptions, 'deviceId'>;
+  label: MessageKey;
+}> = [
+  { key: 'echoCancellation', label: 'settings.echoCancellation' },
+  { key: 'noiseSuppression', label: 'settings.noiseSuppression' },
+  { key: 'autoGainControl', label: 'settings.autoGainControl' },
+];
 
 export default function UserSettings() {
   const { name, info, setName, setInfo } = useUser();
-  const { setShowUserConfig } = useUI();
+  const { setShowUserConfig, videoFps, setVideoFps } = useUI();
+  const {
+    input,
+    setInput,
+    output,
+    setOutput,
+    turnDetection,
+    setTurnDetection,
+  } = useAudioSettings();
+  const { template, setTemplate, variables, setVariable, removeVariable } =
+    usePromptSettings();
+  const agent = useAgent(state => state.current);
+  const [newVariable, setNewVariable] = useState('');
+  const t = useTranslation();
+  const microphones = useMediaDevices('audioinput');
+  const speakers = useMediaDevices('audiooutput');
 
   function updateClient() {
     setShowUserConfig(false);
   }
 
+  const isNewVariableValid =
+    VARIABLE_NAME.test(newVariable) &&
+    !(newVariable in variables) &&
+    !BUILT_IN_VARIABLES.some(({ name }) => name === newVariable);
+
+  function addVariable() {
+    if (!isNewVariableValid) return;
+    setVariable(newVariable, '');
+    setNewVariable('');
+  }
+
   return (
     <Modal onClose={() => setShowUserConfig(false)}>
       <div className="userSettings">
-        <p>
-          This is a simple tool that allows you to design, test, and banter with
-          custom AI characters on the fly.
-        </p>
+        <p>{t('settings.intro')}</p>
 
         <form
           onSubmit={e => {
@@ -28,31 +85,207 @@ export default function UserSettings() {
             updateClient();
           }}
         >
-          <p>Adding this optional info makes the experience more fun:</p>
+          <p>{t('settings.optionalInfo')}</p>
 
           <div>
-            <p>Your name</p>
+            <p>{t('settings.yourName')}</p>
             <input
               type="text"
               name="name"
               value={name}
               onChange={e => setName(e.target.value)}
-              placeholder="What do you like to be called?"
+              placeholder={t('settings.namePlaceholder')}
             />
           </div>
 
           <div>
-            <p>Your info</p>
+            <p>{t('settings.yourInfo')}</p>
             <textarea
               rows={3}
               name="info"
               value={info}
               onChange={e => setInfo(e.target.value)}
-              placeholder="Things we should know about you… Likes, dislikes, hobbies, interests, favorite movies, books, tv shows, foods, etc."
+              placeholder={t('settings.infoPlaceholder')}
+            />
+          </div>
+
+          <div>
+            <p>{t('settings.microphone')}</p>
+            <select
+              value={input.deviceId || ''}
+              onChange={e =>
+                setInput({ deviceId: e.target.value || undefined })
+              }
+            >
+              <option value="">{t('settings.systemDefault')}</option>
+              {microphones
+                .filter(device => device.deviceId !== 'default')
+                .map((device, i) => (
+                  <option key={device.deviceId} value={device.deviceId}>
+                    {device.label ||
+                      t('settings.microphoneNumber', { number: i + 1 })}
+                  </option>
+                ))}
+            </select>
+            {VOICE_PROCESSING_OPTIONS.map(({ key, label }) => (
+              <label key={key} className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={input[key] ?? true}
+                  onChange={e => setInput({ [key]: e.target.checked })}
+                />
+                {t(label)}
+              </label>
+            ))}
+          </div>
+
+          <div>
+            <p>{t('settings.whenYouTalk')}</p>
+            <select
+              value={turnDetection}
+              onChange={e =>
+                setTurnDetection(e.target.value as TurnDetection)
+              }
+            >
+              {TURN_DETECTION_MODES.map(mode => (
+                <option key={mode} value={mode}>
+                  {t(`settings.turnDetection.${mode}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <p>{t('settings.speaker')}</p>
+            <select
+              value={output.deviceId || ''}
+              onChange={e =>
+                setOutput({ deviceId: e.target.value || undefined })
+              }
+            >
+              <option value="">{t('settings.systemDefault')}</option>
+              {speakers
+                .filter(device => device.deviceId !== 'default')
+                .map((device, i) => (
+                  <option key={device.deviceId} value={device.deviceId}>
+                    {device.label ||
+                      t('settings.speakerNumber', { number: i + 1 })}
+                  </option>
+                ))}
+            </select>
+            <label className="temperature">
+              {t('settings.volume')}
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={output.volume}
+                onChange={e => setOutput({ volume: Number(e.target.value) })}
+              />
+              <span>{Math.round(output.volume * 100)}%</span>
+            </label>
+          </div>
+
+          <div>
+            <p>{t('settings.whenYouInterrupt')}</p>
+            <select
+              value={output.fadeOutTime ?? DEFAULT_FADE_OUT_TIME}
+              onChange={e =>
+                setOutput({ fadeOutTime: Number(e.target.value) })
+              }
+            >
+              {FADE_OUT_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>
+                  {t(label)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <p>{t('settings.videoFps')}</p>
+            <select
+              value={videoFps}
+              onChange={e => setVideoFps(Number(e.target.value))}
+            >
+              {VIDEO_FPS_OPTIONS.map(fps => (
+                <option key={fps} value={fps}>
+                  {fps}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="promptSettings">
+            <p>{t('settings.systemInstructions')}</p>
+            <TemplateEditor
+              value={template || DEFAULT_SYSTEM_TEMPLATE}
+              onChange={setTemplate}
             />
+            {template && (
+              <button
+                type="button"
+                className="button"
+                onClick={() => setTemplate('')}
+              >
+                <span className="icon">restart_alt</span>{' '}
+                {t('settings.resetToDefault')}
+              </button>
+            )}
+            <p>{t('settings.customVariables')}</p>
+            <ul>
+              {Object.entries(variables).map(([name, value]) => (
+                <li key={name}>
+                  <code>{name}</code>
+                  <input
+                    type="text"
+                    value={value}
+                    onChange={e => setVariable(name, e.target.value)}
+                  />
+                  <button
+                    type="button"
+                    className="button"
+                    onClick={() => removeVariable(name)}
+                    title={t('settings.removeVariable')}
+                  >
+                    <span className="icon">delete</span>
+                  </button>
+                </li>
+              ))}
+              <li>
+                <input
+                  type="text"
+                  value={newVariable}
+                  onChange={e => setNewVariable(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      addVariable();
+                    }
+                  }}
+                  placeholder={t('settings.newVariable')}
+                />
+                <button
+                  type="button"
+                  className="button"
+                  onClick={addVariable}
+                  disabled={!isNewVariableValid}
+                  title={t('settings.addVariable')}
+                >
+                  <span className="icon">add</span>
+                </button>
+              </li>
+            </ul>
+            <details>
+              <summary>
+                {t('settings.previewWith', { name: agent.name })}
+              </summary>
+              <InstructionsPreview agent={agent} />
+            </details>
           </div>
 
-          <button className="button primary">Let’s go!</button>
+          <button className="button primary">{t('settings.letsGo')}</button>
         </form>
       </div>
     </Modal>
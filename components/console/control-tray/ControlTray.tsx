@@ -1,10 +1,39 @@
 import cn from 'classnames';
-import { memo, ReactNode, useEffect, useRef, useState, useCallback } from 'react';
+import {
+  FormEvent,
+  memo,
+  ReactNode,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  useCallback,
+} from 'react';
 import { AudioRecorder } from '../../../lib/audio-recorder';
+import { VideoFrameSampler } from '../../../lib/video-frame-sampler';
+import {
+  UseMediaStreamResult,
+  useScreenCapture,
+  useWebcam,
+} from '../../../hooks/media/use-media-stream';
+import { useTurnDetection } from '../../../hooks/media/use-turn-detection';
+import {
+  useConversationState,
+} from '../../../hooks/media/use-conversation-state';
 import { useLiveAPIContext } from '../../../contexts/LiveAPIContext';
-import { useUI, useAgent, useUser } from '@/lib/state';
+import {
+  useUI,
+  useAgent,
+  useUser,
+  usePromptSettings,
+  useAudioSettings,
+  useMicLevel,
+  useAgentOutput,
+} from '@/lib/state';
+import { createLiveConfig } from '@/lib/live-config';
 import { createSystemInstructions } from '@/lib/prompts';
-import { Modality } from '@google/genai';
+import { TemplateError } from '@/lib/prompt-template';
+import { useTranslation } from '@/lib/i18n';
 
 export type ControlTrayProps = {
   children?: ReactNode;
@@ -14,14 +43,78 @@ function ControlTray({ children }: ControlTrayProps) {
   const [audioRecorder] = useState(() => new AudioRecorder());
   const [muted, setMuted] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [recording, setRecording] = useState(false);
+  const [message, setMessage] = useState('');
   
   const connectButtonRef = useRef<HTMLButtonElement>(null);
   const audioRecorderRef = useRef<{ started: boolean }>({ started: false });
 
-  const { useGrounding, setUseGrounding } = useUI();
-  const { client, connected, connect, disconnect, volume } = useLiveAPIContext();
+  const { useGrounding, setUseGrounding, textOnly, setTextOnly, videoFps } =
+    useUI();
+  const webcam = useWebcam();
+  const screenCapture = useScreenCapture();
+  const videoStreams = [webcam, screenCapture];
+  const activeVideoStream =
+    videoStreams.find(stream => stream.isStreaming)?.stream || null;
+  const videoPreviewRef = useRef<HTMLVideoElement>(null);
+  const micButtonRef = useRef<HTMLButtonElement>(null);
+  const {
+    client,
+    connected,
+    status,
+    connect,
+    disconnect,
+    sendText,
+    transcript,
+    groundingChunks,
+    sessionRecorder,
+  } = useLiveAPIContext();
   const user = useUser();
+  const { template, variables } = usePromptSettings();
   const { current: agent } = useAgent();
+  const audioInput = useAudioSettings(state => state.input);
+  const { speakerMuted, setSpeakerMuted, turnDetection } = useAudioSettings();
+  // The turn detection the current session was configured with
+  const [sessionTurnDetection, setSessionTurnDetection] =
+    useState(turnDetection);
+  const { onAudioData, userActive } = useTurnDetection({
+    client,
+    audioRecorder,
+    connected,
+    mode: sessionTurnDetection,
+  });
+  const conversationState = useConversationState();
+  const t = useTranslation();
+
+  // A template that fails to render keeps the agent from connecting, show
+  // what is wrong with it the way the instructions preview does
+  const templateError = useMemo(() => {
+    try {
+      createSystemInstructions(agent, user, { template, variables });
+      return null;
+    } catch (error) {
+      if (!(error instanceof TemplateError)) throw error;
+      return error.message;
+    }
+  }, [agent, user, template, variables]);
+
+  // Apply microphone settings, switching devices without reconnecting
+  useEffect(() => {
+    audioRecorder.setInputOptions(audioInput).catch(error => {
+      console.error('Error switching microphone:', error);
+    });
+  }, [audioRecorder, audioInput]);
+
+  // Report when falling back from an unplugged microphone fails
+  useEffect(() => {
+    const onError = (error: Error) => {
+      console.error('Error switching microphone:', error);
+    };
+    audioRecorder.on('error', onError);
+    return () => {
+      audioRecorder.off('error', onError);
+    };
+  }, [audioRecorder]);
 
   // Focus connect button when not connected
   useEffect(() => {
@@ -37,16 +130,37 @@ function ControlTray({ children }: ControlTrayProps) {
     }
     
     try {
-      client.sendRealtimeInput([
-        {
-          mimeType: 'audio/pcm;rate=16000',
-          data: base64,
-        },
-      ]);
+      onAudioData(base64);
     } catch (error) {
       console.error('Error sending audio data:', error);
     }
-  }, [client, connected]);
+  }, [client, connected, onAudioData]);
+
+  // Feed microphone audio into the session recording
+  useEffect(() => {
+    const onPCM16 = (data: ArrayBuffer) => {
+      sessionRecorder.addInput(data, audioRecorder.sampleRate);
+    };
+    audioRecorder.on('pcm16', onPCM16);
+    return () => {
+      audioRecorder.off('pcm16', onPCM16);
+    };
+  }, [audioRecorder, sessionRecorder]);
+
+  // Share the microphone level with the face
+  useEffect(() => {
+    const { setLevel } = useMicLevel.getState();
+    audioRecorder.on('volume', setLevel);
+    return () => {
+      audioRecorder.off('volume', setLevel);
+    };
+  }, [audioRecorder]);
+
+  useEffect(() => {
+    if (!connected || muted) {
+      useMicLevel.getState().setLevel(0);
+    }
+  }, [connected, muted]);
 
   // Start audio recorder when connected and not muted
   useEffect(() => {
@@ -71,6 +185,55 @@ function ControlTray({ children }: ControlTrayProps) {
     };
   }, [connected, muted, audioRecorder, onData]);
 
+  // Stream sampled video frames while connected
+  useEffect(() => {
+    if (!connected || !activeVideoStream) {
+      return;
+    }
+    const sampler = new VideoFrameSampler(activeVideoStream, { fps: videoFps });
+    sampler.on('frame', frame => client.sendRealtimeInput([frame]));
+    sampler.start().catch(error => {
+      console.error('Error sampling video frames:', error);
+    });
+    return () => sampler.stop();
+  }, [connected, activeVideoStream, videoFps, client]);
+
+  // Show the video being sent in the picture-in-picture preview
+  useEffect(() => {
+    if (videoPreviewRef.current) {
+      videoPreviewRef.current.srcObject = activeVideoStream;
+    }
+  }, [activeVideoStream]);
+
+  // Stop sending video when disconnected. The streams are new objects on
+  // every render, which only repeats a check while nothing is streaming.
+  useEffect(() => {
+    if (!connected) {
+      videoStreams.forEach(stream => stream.isStreaming && stream.stop());
+    }
+  }, [connected, videoStreams]);
+
+  // Update mic button style based on the agent's volume, without
+  // re-rendering the tray
+  useEffect(() => {
+    const button = micButtonRef.current;
+    if (!button || !connected || muted) {
+      return;
+    }
+    const unsubscribe = useAgentOutput.subscribe(({ volume }) => {
+      if (volume > 0) {
+        const spread = Math.min(volume * 100, 50);
+        button.style.setProperty('--volume', `${spread}px`);
+      } else {
+        button.style.removeProperty('--volume');
+      }
+    });
+    return () => {
+      unsubscribe();
+      button.style.removeProperty('--volume');
+    };
+  }, [connected, muted]);
+
   // Reset states when disconnected
   useEffect(() => {
     if (!connected) {
@@ -82,31 +245,29 @@ function ControlTray({ children }: ControlTrayProps) {
     }
   }, [connected, audioRecorder]);
 
+  // Release the microphone when the tray goes away, e.g. for the panel
+  useEffect(() => {
+    return () => {
+      audioRecorder.stop();
+      audioRecorderRef.current.started = false;
+    };
+  }, [audioRecorder]);
+
   const handleConnect = async () => {
-    if (isConnecting || connected) {
+    if (isConnecting || connected || templateError) {
       return;
     }
     
     setIsConnecting(true);
     
     try {
-      // Create config
-      const config = {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: agent.voice },
-          },
-        },
-        systemInstruction: {
-          parts: [
-            {
-              text: createSystemInstructions(agent, user),
-            },
-          ],
-        },
-        ...(useGrounding && { tools: [{ googleSearch: {} }] }),
-      };
+      const config = createLiveConfig(agent, user, {
+        useGrounding,
+        promptSettings: { template, variables },
+        textOnly,
+        turnDetection,
+      });
+      setSessionTurnDetection(turnDetection);
 
       await connect(config);
     } catch (error) {
@@ -134,22 +295,67 @@ function ControlTray({ children }: ControlTrayProps) {
     }
   };
 
-  // Update mic button style based on volume
-  const micButtonStyle = connected && !muted && volume > 0 ? {
-    '--volume': `${Math.min(volume * 100, 50)}px`
-  } as React.CSSProperties : {};
+  const onSubmitMessage = (e: FormEvent) => {
+    e.preventDefault();
+    const text = message.trim();
+    if (!text) {
+      return;
+    }
+    sendText(text);
+    setMessage('');
+  };
+
+  // Only one video source is streamed at a time
+  const toggleVideoStream = async (next: UseMediaStreamResult) => {
+    if (next.isStreaming) {
+      next.stop();
+      return;
+    }
+    videoStreams
+      .filter(stream => stream !== next && stream.isStreaming)
+      .forEach(stream => stream.stop());
+    try {
+      await next.start();
+    } catch (error) {
+      console.error(`Error starting ${next.type} stream:`, error);
+    }
+  };
+
+  const toggleRecording = () => {
+    if (recording) {
+      sessionRecorder.stop();
+      sessionRecorder.export({ agent, transcript, groundingChunks });
+      setRecording(false);
+    } else if (connected) {
+      sessionRecorder.start();
+      setRecording(true);
+    }
+  };
+
 
   return (
     <section className="control-tray">
+      <video
+        className={cn('video-preview', { hidden: !activeVideoStream })}
+        ref={videoPreviewRef}
+        autoPlay
+        playsInline
+        muted
+      />
       <nav className="actions-nav">
         <button
           className={cn('action-button mic-button', { 
-            disabled: !connected 
+            disabled: !connected,
+            talking: userActive || conversationState === 'user-speaking',
           })}
-          style={micButtonStyle}
+          ref={micButtonRef}
           onClick={toggleMute}
           disabled={!connected}
-          title={muted ? 'Unmute microphone' : 'Mute microphone'}
+          title={
+            muted
+              ? t('controls.unmuteMicrophone')
+              : t('controls.muteMicrophone')
+          }
         >
           {!muted ? (
             <span className="material-symbols-outlined filled">mic</span>
@@ -157,6 +363,70 @@ function ControlTray({ children }: ControlTrayProps) {
             <span className="material-symbols-outlined filled">mic_off</span>
           )}
         </button>
+        <button
+          className={cn('action-button', { active: speakerMuted })}
+          onClick={() => setSpeakerMuted(!speakerMuted)}
+          title={
+            speakerMuted
+              ? t('controls.unmuteSpeaker')
+              : t('controls.muteSpeaker')
+          }
+        >
+          <span className="material-symbols-outlined filled">
+            {speakerMuted ? 'volume_off' : 'volume_up'}
+          </span>
+        </button>
+        <button
+          className={cn('action-button', {
+            active: webcam.isStreaming,
+            disabled: !connected,
+          })}
+          onClick={() => toggleVideoStream(webcam)}
+          disabled={!connected}
+          title={
+            webcam.isStreaming
+              ? t('controls.turnOffCamera')
+              : t('controls.turnOnCamera')
+          }
+        >
+          <span className="material-symbols-outlined filled">
+            {webcam.isStreaming ? 'videocam_off' : 'videocam'}
+          </span>
+        </button>
+        <button
+          className={cn('action-button', {
+            active: screenCapture.isStreaming,
+            disabled: !connected,
+          })}
+          onClick={() => toggleVideoStream(screenCapture)}
+          disabled={!connected}
+          title={
+            screenCapture.isStreaming
+              ? t('controls.stopSharingScreen')
+              : t('controls.shareScreen')
+          }
+        >
+          <span className="material-symbols-outlined filled">
+            {screenCapture.isStreaming ? 'cancel_presentation' : 'present_to_all'}
+          </span>
+        </button>
+        <button
+          className={cn('action-button record-button', {
+            recording,
+            disabled: !connected && !recording,
+          })}
+          onClick={toggleRecording}
+          disabled={!connected && !recording}
+          title={
+            recording
+              ? t('controls.stopRecording')
+              : t('controls.recordSession')
+          }
+        >
+          <span className="material-symbols-outlined filled">
+            {recording ? 'stop_circle' : 'radio_button_checked'}
+          </span>
+        </button>
         {children}
       </nav>
 
@@ -166,13 +436,13 @@ function ControlTray({ children }: ControlTrayProps) {
             ref={connectButtonRef}
             className={cn('action-button connect-toggle', { connected })}
             onClick={connected ? handleDisconnect : handleConnect}
-            disabled={isConnecting}
+            disabled={isConnecting || (!connected && !!templateError)}
             title={
               isConnecting
-                ? 'Connecting...'
+                ? t('controls.connecting')
                 : connected 
-                ? 'Disconnect' 
-                : 'Connect'
+                ? t('controls.disconnect') 
+                : templateError || t('controls.connect')
             }
           >
             <span className="material-symbols-outlined filled">
@@ -185,23 +455,71 @@ function ControlTray({ children }: ControlTrayProps) {
               onClick={() => setUseGrounding(!useGrounding)}
               title={
                 useGrounding
-                  ? 'Disable Google Search Grounding'
-                  : 'Enable Google Search Grounding'
+                  ? t('controls.disableGrounding')
+                  : t('controls.enableGrounding')
               }
             >
               <span className="material-symbols-outlined filled">search</span>
             </button>
           )}
+          {!connected && (
+            <button
+              className={cn('grounding-toggle', { active: textOnly })}
+              onClick={() => setTextOnly(!textOnly)}
+              title={
+                textOnly
+                  ? t('controls.answerWithVoice')
+                  : t('controls.answerWithText')
+              }
+            >
+              <span className="material-symbols-outlined filled">
+                {textOnly ? 'chat' : 'record_voice_over'}
+              </span>
+            </button>
+          )}
         </div>
-        <span className="text-indicator">
-          {isConnecting
-            ? 'Connecting...'
+        <span
+          className={cn('text-indicator', connected && conversationState, {
+            'template-error': !connected && templateError,
+          })}
+        >
+          {!connected && templateError
+            ? templateError
+            : isConnecting
+            ? t('controls.connecting')
+            : status === 'reconnecting'
+            ? t('controls.reconnecting')
+            : connected &&
+              sessionTurnDetection === 'push-to-talk' &&
+              conversationState === 'idle'
+            ? userActive
+              ? t('conversation.user-speaking')
+              : t('controls.holdToTalk')
             : connected 
-            ? 'Streaming' 
-            : 'Ready'
+            ? t(`conversation.${conversationState}`)
+            : t('controls.ready')
           }
         </span>
       </div>
+
+      {connected && (
+        <form className="chat-input" onSubmit={onSubmitMessage}>
+          <input
+            type="text"
+            value={message}
+            onChange={e => setMessage(e.target.value)}
+            placeholder={t('controls.messagePlaceholder')}
+          />
+          <button
+            type="submit"
+            className="action-button"
+            disabled={!message.trim()}
+            title={t('controls.sendMessage')}
+          >
+            <span className="material-symbols-outlined filled">send</span>
+          </button>
+        </form>
+      )}
     </section>
   );
 }
@@ -39,7 +39,12 @@ export default function BasicFaceDisplay() {
 
   return (
     <div className="keynote-companion">
-      <BasicFace canvasRef={faceCanvasRef} color={current.bodyColor} />
+      <BasicFace
+        canvasRef={faceCanvasRef}
+        color={current.bodyColor}
+        avatar={current.avatar}
+        appearance={current.appearance}
+      />
       <GroundingReferences chunks={groundingChunks} />
     </div>
   );
@@ -4,6 +4,7 @@
 */
 import { useLiveAPIContext } from '@/contexts/LiveAPIContext';
 import React, { useEffect, useState } from 'react';
+import { useTranslation } from '@/lib/i18n';
 
 export interface ExtendedErrorType {
   code?: number;
@@ -13,6 +14,7 @@ export interface ExtendedErrorType {
 
 export default function ErrorScreen() {
   const { client } = useLiveAPIContext();
+  const t = useTranslation();
   const [error, setError] = useState<{ message?: string } | null>(null);
 
   useEffect(() => {
@@ -28,10 +30,9 @@ export default function ErrorScreen() {
     };
   }, [client]);
 
-  const quotaErrorMessage =
-    'Gemini Live API in AI Studio has a limited free quota each day. Come back tomorrow to continue.';
+  const quotaErrorMessage = t('error.quota');
 
-  let errorMessage = 'Something went wrong. Please try again.';
+  let errorMessage = t('error.generic');
   let rawMessage: string | null = error?.message || null;
   let tryAgainOption = true;
   if (error?.message?.includes('RESOURCE_EXHAUSTED')) {
@@ -70,7 +71,7 @@ export default function ErrorScreen() {
             setError(null);
           }}
         >
-          Close
+          {t('error.close')}
         </button>
       ) : null}
       {rawMessage ? (
@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useEffect, useRef, useState } from 'react';
+import c from 'classnames';
+import BasicFace from './basic-face/BasicFace';
+import { useLiveAPIContext } from '../../contexts/LiveAPIContext';
+import { usePanelSession } from '../../hooks/media/use-panel-session';
+import {
+  useAgent,
+  useAudioSettings,
+  usePanel,
+  useUI,
+  useUser,
+  usePromptSettings,
+  usePanelVolumes,
+} from '@/lib/state';
+import { Agent } from '@/lib/presets/agents';
+import { Expression } from '@/lib/expressions';
+import { useAgentName, useTranslation } from '@/lib/i18n';
+import { createLiveConfig } from '@/lib/live-config';
+import {
+  MAX_PANELISTS,
+  MIN_PANELISTS,
+  MODERATOR_POLICIES,
+} from '@/lib/panel-session';
+
+function PanelistFace({
+  agent,
+  expression,
+}: {
+  agent: Agent;
+  expression?: Expression;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const agentName = useAgentName();
+  const getVolume = () => usePanelVolumes.getState().volumes[agent.id] || 0;
+  return (
+    <>
+      <BasicFace
+        canvasRef={canvasRef}
+        radius={120}
+        color={agent.bodyColor}
+        getVolume={getVolume}
+        expression={expression}
+        avatar={agent.avatar}
+        appearance={agent.appearance}
+      />
+      <p>{agentName(agent)}</p>
+    </>
+  );
+}
+
+export default function PanelConsole({ apiKey }: { apiKey: string }) {
+  const { disconnect } = useLiveAPIContext();
+  const { availablePresets, availablePersonal } = useAgent();
+  const { agentIds, policy, toggleAgent, setPolicy } = usePanel();
+  const { useGrounding } = useUI();
+  const user = useUser();
+  const { template, variables } = usePromptSettings();
+  const {
+    start,
+    stop,
+    running,
+    activeSpeakerId,
+    expressions,
+    muted,
+    setMuted,
+  } = usePanelSession({ apiKey });
+  const [isStarting, setIsStarting] = useState(false);
+  const [startError, setStartError] = useState<string | null>(null);
+  const { speakerMuted, setSpeakerMuted } = useAudioSettings();
+  const t = useTranslation();
+  const agentName = useAgentName();
+
+  // The panel replaces the one-on-one conversation
+  useEffect(() => {
+    disconnect();
+  }, [disconnect]);
+
+  const allAgents = [...availablePresets, ...availablePersonal];
+  const panelists = agentIds
+    .map(id => allAgents.find(agent => agent.id === id))
+    .filter((agent): agent is Agent => !!agent);
+
+  async function startPanel() {
+    setIsStarting(true);
+    setStartError(null);
+    try {
+      await start(panelists, policy, agent => {
+        const others = panelists
+          .filter(panelist => panelist.id !== agent.id)
+          .map(panelist => panelist.name)
+          .join(', ');
+        return createLiveConfig(agent, user, {
+          useGrounding,
+          promptSettings: { template, variables },
+          extraInstructions: `You are on a panel discussion with ${others}. \
+You will receive what the others said as text. Only speak when it is your turn, \
+respond to what was just said and keep the discussion going.`,
+        });
+      });
+    } catch (error) {
+      console.error('Could not start the panel:', error);
+      setStartError((error as Error).message);
+    } finally {
+      setIsStarting(false);
+    }
+  }
+
+  if (!running) {
+    return (
+      <div className="panelSetup">
+        <h2>{t('panel.title')}</h2>
+        <p>{t('panel.intro', { min: MIN_PANELISTS, max: MAX_PANELISTS })}</p>
+        <ul>
+          {allAgents.map(agent => (
+            <li key={agent.id}>
+              <label className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={agentIds.includes(agent.id)}
+                  disabled={
+                    !agentIds.includes(agent.id) &&
+                    agentIds.length >= MAX_PANELISTS
+                  }
+                  onChange={() => toggleAgent(agent.id)}
+                />
+                {agentName(agent)}
+              </label>
+            </li>
+          ))}
+        </ul>
+        <div className="voicePicker">
+          {t('panel.turns')}
+          <select
+            value={policy}
+            onChange={e => setPolicy(e.target.value as typeof policy)}
+          >
+            {MODERATOR_POLICIES.map(p => (
+              <option key={p} value={p}>
+                {t(`panel.policy.${p}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button
+          className="button primary"
+          disabled={isStarting || panelists.length < MIN_PANELISTS}
+          onClick={startPanel}
+        >
+          {isStarting ? t('panel.starting') : t('panel.start')}
+        </button>
+        {startError && (
+          <p className="panelError">
+            {t('panel.startFailed', { reason: startError })}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="panelConsole">
+      <ul className="panelists">
+        {panelists.map(agent => (
+          <li
+            key={agent.id}
+            className={c('panelist', { active: agent.id === activeSpeakerId })}
+          >
+            <PanelistFace agent={agent} expression={expressions[agent.id]} />
+          </li>
+        ))}
+      </ul>
+      <section className="control-tray">
+        <nav className="actions-nav">
+          <button
+            className="action-button mic-button"
+            onClick={() => setMuted(!muted)}
+            title={
+              muted
+                ? t('controls.unmuteMicrophone')
+                : t('controls.muteMicrophone')
+            }
+          >
+            <span className="material-symbols-outlined filled">
+              {muted ? 'mic_off' : 'mic'}
+            </span>
+          </button>
+          <button
+            className={c('action-button', { active: speakerMuted })}
+            onClick={() => setSpeakerMuted(!speakerMuted)}
+            title={
+              speakerMuted
+                ? t('controls.unmuteSpeaker')
+                : t('controls.muteSpeaker')
+            }
+          >
+            <span className="material-symbols-outlined filled">
+              {speakerMuted ? 'volume_off' : 'volume_up'}
+            </span>
+          </button>
+          <button
+            className="action-button connect-toggle connected"
+            onClick={stop}
+            title={t('panel.end')}
+          >
+            <span className="material-symbols-outlined filled">stop</span>
+          </button>
+        </nav>
+      </section>
+    </div>
+  );
+}
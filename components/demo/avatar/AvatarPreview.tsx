@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useRef } from 'react';
+import { Agent, DEFAULT_APPEARANCE } from '@/lib/presets/agents';
+import useAvatarRenderer from '@/hooks/demo/use-avatar-renderer';
+import useAnimationFrame from '@/hooks/demo/use-animation-frame';
+import {
+  EXPRESSION_SHAPES,
+  NEUTRAL_MOUTH,
+} from '../basic-face/basic-face-render';
+
+// Syllables per second of the sample speech
+const SYLLABLE_RATE = 4;
+
+/**
+ * Draws an agent's avatar talking to itself, so changes to its appearance
+ * can be seen without starting a conversation.
+ */
+export default function AvatarPreview({
+  agent,
+  size = 160,
+}: {
+  agent: Agent;
+  size?: number;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const renderer = useAvatarRenderer(canvasRef, agent.avatar);
+  const { bodyColor, appearance = DEFAULT_APPEARANCE } = agent;
+
+  useAnimationFrame(time => {
+    // Syllables that swell and fade in phrases of a few seconds
+    const syllable = Math.abs(Math.sin(time * Math.PI * SYLLABLE_RATE));
+    const phrase = Math.max(0, Math.sin(time * 1.3));
+    // Blink for a moment every few seconds
+    const blinking = time % 3.5 < 0.15;
+    renderer?.render({
+      eyeScale: blinking ? 0 : 1,
+      mouthScale: (syllable * phrase) / 2,
+      mouthShape: NEUTRAL_MOUTH,
+      expression: EXPRESSION_SHAPES.neutral,
+      appearance,
+      color: bodyColor,
+    });
+  });
+
+  return (
+    <canvas
+      className="avatarPreview"
+      ref={canvasRef}
+      width={size * 2}
+      height={size * 2}
+      style={{ width: size, height: size }}
+    />
+  );
+}
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { MessageKey } from '@/lib/i18n';
+import { AgentAppearance, AgentAvatar } from '@/lib/presets/agents';
+import {
+  BasicFaceRenderer,
+  ExpressionShape,
+  Gaze,
+  MouthShape,
+} from '../basic-face/basic-face-render';
+import { PixelFaceRenderer } from './pixel-face-render';
+
+/**
+ * Everything an avatar needs to draw a single frame.
+ */
+export type AvatarFrame = {
+  eyeScale: number;
+  gaze?: Gaze;
+  mouthScale: number;
+  mouthShape: MouthShape;
+  expression: ExpressionShape;
+  appearance?: AgentAppearance;
+  color?: string;
+};
+
+/**
+ * Draws an avatar onto a canvas. A renderer is created for a canvas, asked
+ * to render every time the face changes, and disposed of when the canvas or
+ * the avatar style changes.
+ */
+export interface AvatarRenderer {
+  init(canvas: HTMLCanvasElement): void;
+  render(frame: AvatarFrame): void;
+  dispose(): void;
+}
+
+export type AvatarOption = {
+  key: string;
+  label: MessageKey;
+  choices: Array<{ value: string | number; label: MessageKey }>;
+  defaultValue: string | number;
+};
+
+/**
+ * An avatar style agents can choose in the editor.
+ */
+export type AvatarStyle = {
+  // Stored in `Agent.avatar.renderer`
+  name: string;
+  label: MessageKey;
+  // Settings shown in the editor, passed to `create`
+  options?: AvatarOption[];
+  create: (options: Record<string, unknown>) => AvatarRenderer;
+};
+
+export const DEFAULT_AVATAR_STYLE = 'basic';
+
+const registeredStyles: Map<string, AvatarStyle> = new Map();
+
+export function registerAvatarStyle(style: AvatarStyle) {
+  if (registeredStyles.has(style.name)) {
+    console.warn(
+      `Avatar style "${style.name}" is already registered, replacing it.`
+    );
+  }
+  registeredStyles.set(style.name, style);
+}
+
+export function getAvatarStyles(): AvatarStyle[] {
+  return Array.from(registeredStyles.values());
+}
+
+/**
+ * Creates the renderer for an agent's avatar, falling back to the default
+ * style when it is unset or not registered.
+ */
+export function createAvatarRenderer(avatar?: AgentAvatar): AvatarRenderer {
+  const style =
+    (avatar && registeredStyles.get(avatar.renderer)) ||
+    registeredStyles.get(DEFAULT_AVATAR_STYLE)!;
+  const options = Object.fromEntries(
+    (style.options || []).map(({ key, defaultValue }) => [
+      key,
+      avatar?.options?.[key] ?? defaultValue,
+    ])
+  );
+  return style.create(options);
+}
+
+/**
+ * Built-in styles
+ */
+registerAvatarStyle({
+  name: DEFAULT_AVATAR_STYLE,
+  label: 'agent.avatar.basic',
+  create: () => new BasicFaceRenderer(),
+});
+
+registerAvatarStyle({
+  name: 'pixel',
+  label: 'agent.avatar.pixel',
+  options: [
+    {
+      key: 'resolution',
+      label: 'agent.avatar.resolution',
+      choices: [
+        { value: 16, label: 'agent.avatar.resolution.chunky' },
+        { value: 24, label: 'agent.avatar.resolution.medium' },
+        { value: 40, label: 'agent.avatar.resolution.fine' },
+      ],
+      defaultValue: 24,
+    },
+  ],
+  create: ({ resolution }) => new PixelFaceRenderer(Number(resolution)),
+});
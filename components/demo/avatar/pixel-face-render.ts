@@ -0,0 +1,128 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { DEFAULT_APPEARANCE } from '@/lib/presets/agents';
+import { AvatarFrame, AvatarRenderer } from './avatar-renderers';
+
+// Parses `#rrggbb` colors, falling back to white
+function parseColor(color?: string): [number, number, number] {
+  const match = /^#?([0-9a-f]{6})$/i.exec(color || '');
+  if (!match) return [255, 255, 255];
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+/**
+ * Classifies a point of the face, with coordinates from -1 to 1 across the
+ * canvas and y pointing down.
+ */
+function samplePixel(
+  x: number,
+  y: number,
+  {
+    eyeScale,
+    gaze = { x: 0, y: 0 },
+    mouthScale,
+    mouthShape,
+    expression,
+    appearance = DEFAULT_APPEARANCE,
+  }: AvatarFrame
+): 'face' | 'feature' | 'none' {
+  if (x * x + y * y > 0.85 * 0.85) return 'none';
+
+  // Eyes
+  const eyeRadius = 0.08 * appearance.eyeSize;
+  const eyeOffset = 0.14 * appearance.eyeSpacing;
+  const eyeHeight = eyeRadius * (eyeScale + 0.1) * expression.eyeOpen;
+  // Shifted towards where the eyes look
+  const eyeX = gaze.x * eyeRadius * 0.8;
+  const eyeY = -0.18 + gaze.y * eyeRadius * 0.6;
+  for (const side of [-1, 1]) {
+    const dx = (x - side * eyeOffset - eyeX) / eyeRadius;
+    const dy = (y - eyeY) / Math.max(eyeHeight, 0.01);
+    if (dx * dx + dy * dy <= 1) return 'feature';
+  }
+
+  // Eyebrows
+  if (expression.brows > 0.5) {
+    for (const side of [-1, 1]) {
+      const t = (x - side * eyeOffset) / (eyeRadius * 1.3);
+      if (Math.abs(t) > 1) continue;
+      const raise =
+        expression.browRaise +
+        (side < 0 ? expression.browAsymmetry * 0.6 : 0);
+      // 1 at the inner end of the eyebrow, 0 at the outer end
+      const inner = (1 - t * side) / 2;
+      const browY =
+        -0.18 -
+        eyeRadius * (2.2 + raise) +
+        expression.browTilt * eyeRadius * (inner - 0.4);
+      if (Math.abs(y - browY) < 0.03) return 'feature';
+    }
+  }
+
+  // Mouth
+  const width = 0.2 * mouthShape.width * appearance.mouthWidth;
+  const dx = x / width;
+  if (Math.abs(dx) <= 1) {
+    const extent = 0.04 + 0.4 * mouthScale;
+    const bend = 0.08 * expression.mouthCurve * dx * dx;
+    const curve = Math.sqrt(1 - dx * dx);
+    const dy = y - 0.3 + bend;
+    if (dy <= extent * curve && dy >= -extent * mouthShape.upper * curve) {
+      return 'feature';
+    }
+  }
+
+  return 'face';
+}
+
+/**
+ * A retro avatar drawn on a coarse grid and scaled up without smoothing.
+ */
+export class PixelFaceRenderer implements AvatarRenderer {
+  private ctx: CanvasRenderingContext2D | null = null;
+  private grid: HTMLCanvasElement = document.createElement('canvas');
+
+  constructor(private resolution: number) {
+    this.grid.width = resolution;
+    this.grid.height = resolution;
+  }
+
+  init(canvas: HTMLCanvasElement) {
+    this.ctx = canvas.getContext('2d');
+  }
+
+  render(frame: AvatarFrame) {
+    const gridCtx = this.grid.getContext('2d');
+    if (!this.ctx || !gridCtx) return;
+
+    const { resolution } = this;
+    const image = gridCtx.createImageData(resolution, resolution);
+    const [r, g, b] = parseColor(frame.color);
+    for (let row = 0; row < resolution; row++) {
+      for (let col = 0; col < resolution; col++) {
+        const x = ((col + 0.5) / resolution) * 2 - 1;
+        const y = ((row + 0.5) / resolution) * 2 - 1;
+        const pixel = samplePixel(x, y, frame);
+        if (pixel === 'none') continue;
+        const i = (row * resolution + col) * 4;
+        if (pixel === 'face') {
+          image.data.set([r, g, b], i);
+        }
+        image.data[i + 3] = 255;
+      }
+    }
+    gridCtx.putImageData(image, 0, 0);
+
+    const { width, height } = this.ctx.canvas;
+    this.ctx.clearRect(0, 0, width, height);
+    this.ctx.imageSmoothingEnabled = false;
+    this.ctx.drawImage(this.grid, 0, 0, width, height);
+  }
+
+  dispose() {
+    this.ctx = null;
+  }
+}
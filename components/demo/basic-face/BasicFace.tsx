@@ -4,18 +4,33 @@
 */
 import { RefObject, useEffect, useState, useRef } from 'react';
 
-import { renderBasicFace } from './basic-face-render';
-
-import useFace from '../../../hooks/demo/use-face';
+import useFace, { useBlink } from '../../../hooks/demo/use-face';
+import useBehavior from '../../../hooks/demo/use-behavior';
+import useAvatarRenderer from '../../../hooks/demo/use-avatar-renderer';
 import useHover from '../../../hooks/demo/use-hover';
 import useTilt from '../../../hooks/demo/use-tilt';
-import { useLiveAPIContext } from '../../../contexts/LiveAPIContext';
+import useAnimationFrame from '../../../hooks/demo/use-animation-frame';
+import {
+  useConversationState,
+} from '../../../hooks/media/use-conversation-state';
+import { Expression } from '../../../lib/expressions';
+import { ConversationState } from '../../../lib/conversation-state';
+import { AgentAppearance, AgentAvatar } from '../../../lib/presets/agents';
+import { useAgentOutput } from '../../../lib/state';
 
 // Minimum volume level that indicates audio output is occurring
 const AUDIO_OUTPUT_DETECTION_THRESHOLD = 0.05;
 
 // Amount of delay between end of audio output and setting talking state to false
-const TALKING_STATE_COOLDOWN_MS = 2000;
+const TALKING_STATE_COOLDOWN = 2;
+
+// Expressions shown while the agent has none of its own
+const CONVERSATION_EXPRESSIONS: Partial<
+  Record<ConversationState, Expression>
+> = {
+  waiting: 'thinking',
+  interrupted: 'surprised',
+};
 
 type BasicFaceProps = {
   /** The canvas element on which to render the face. */
@@ -24,30 +39,47 @@ type BasicFaceProps = {
   radius?: number;
   /** The color of the face. */
   color?: string;
+  /**
+   * Gives the output volume driving the face every frame, defaults to the
+   * live session's.
+   */
+  getVolume?: () => number;
+  /** The expression to show, defaults to the live session's. */
+  expression?: Expression;
+  /** The avatar style to draw, defaults to the classic face. */
+  avatar?: AgentAvatar;
+  /** The proportions and accessories of the face. */
+  appearance?: AgentAppearance;
 };
 
 export default function BasicFace({
   canvasRef,
   radius = 250,
   color,
+  getVolume,
+  expression,
+  avatar,
+  appearance,
 }: BasicFaceProps) {
-  const timeoutRef = useRef<NodeJS.Timeout>(null);
-
-  // Audio output volume
-  const { volume } = useLiveAPIContext();
+  // Faces driven by their own volume are not part of the live conversation
+  const liveConversationState = useConversationState();
+  const conversationState =
+    getVolume === undefined ? liveConversationState : undefined;
 
-  // Talking state
-  const [isTalking, setIsTalking] = useState(false);
+  // Talking state, until this time on the animation clock
+  const talkingUntilRef = useRef(0);
 
   const [scale, setScale] = useState(0.1);
 
   // Face state
-  const { eyeScale, mouthScale } = useFace();
-  const hoverPosition = useHover();
-  const tiltAngle = useTilt({
+  const getFace = useFace(getVolume, undefined, expression);
+  const getBehavior = useBehavior(canvasRef);
+  const getBlink = useBlink();
+  const renderer = useAvatarRenderer(canvasRef, avatar);
+  const getHoverPosition = useHover();
+  const getTiltAngle = useTilt({
     maxAngle: 5,
     speed: 0.075,
-    isActive: isTalking,
   });
 
   useEffect(() => {
@@ -59,32 +91,48 @@ export default function BasicFace({
     return () => window.removeEventListener('resize', calculateScale);
   }, []);
 
-  // Detect whether the agent is talking based on audio output volume
-  // Set talking state when volume is detected
-  useEffect(() => {
-    if (volume > AUDIO_OUTPUT_DETECTION_THRESHOLD) {
-      setIsTalking(true);
-      if (timeoutRef.current) clearTimeout(timeoutRef.current);
-      // Enforce a slight delay between end of audio output and setting talking state to false
-      timeoutRef.current = setTimeout(
-        () => setIsTalking(false),
-        TALKING_STATE_COOLDOWN_MS
-      );
-    }
-  }, [volume]);
-
-  // Render the face on the canvas
-  useEffect(() => {
+  // Draw every frame outside of React, so the face animates without
+  // re-rendering the component
+  useAnimationFrame((time, delta) => {
     const canvas = canvasRef.current;
-    if (!canvas) {
+    if (!canvas || !renderer) {
       return;
     }
-    const ctx = canvas.getContext('2d');
-    if (!ctx) {
-      return;
+
+    // Audio output volume
+    const volume = getVolume ? getVolume() : useAgentOutput.getState().volume;
+
+    // Detect whether the agent is talking based on audio output volume,
+    // with a slight delay between end of audio output and no longer talking
+    if (volume > AUDIO_OUTPUT_DETECTION_THRESHOLD) {
+      talkingUntilRef.current = time + TALKING_STATE_COOLDOWN;
     }
-    renderBasicFace({ ctx, mouthScale, eyeScale, color });
-  }, [canvasRef, volume, eyeScale, mouthScale, color, scale]);
+    const isTalking = conversationState
+      ? conversationState === 'model-speaking'
+      : time < talkingUntilRef.current;
+
+    const { state, gaze, eyeOpen } = getBehavior(
+      time,
+      delta,
+      volume,
+      conversationState
+    );
+    const idleExpression = conversationState
+      ? CONVERSATION_EXPRESSIONS[conversationState]
+      : state === 'thinking'
+      ? 'thinking'
+      : undefined;
+    renderer.render({
+      ...getFace(time, delta, idleExpression),
+      eyeScale: getBlink(time) * eyeOpen,
+      gaze,
+      appearance,
+      color,
+    });
+    canvas.style.transform = `translateY(${getHoverPosition(
+      time
+    )}px) rotate(${getTiltAngle(time, delta, isTalking)}deg)`;
+  });
 
   return (
     <canvas
@@ -92,11 +140,7 @@ export default function BasicFace({
       ref={canvasRef}
       width={radius * 2 * scale}
       height={radius * 2 * scale}
-      style={{
-        display: 'block',
-        borderRadius: '50%',
-        transform: `translateY(${hoverPosition}px) rotate(${tiltAngle}deg)`,
-      }}
+      style={{ display: 'block' }}
     />
   );
 }
\ No newline at end of file
@@ -2,10 +2,111 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import { Expression } from '@/lib/expressions';
+import {
+  AgentAppearance,
+  BackgroundShape,
+  DEFAULT_APPEARANCE,
+} from '@/lib/presets/agents';
+import {
+  AvatarFrame,
+  AvatarRenderer,
+} from '../avatar/avatar-renderers';
+
+/**
+ * Proportions of the mouth relative to its neutral shape.
+ */
+export type MouthShape = {
+  // Horizontal stretch, wider than 1 for spread lips
+  width: number;
+  // Height of the upper lip relative to the lower one, 1 for a round mouth
+  upper: number;
+};
+
+export const NEUTRAL_MOUTH: MouthShape = { width: 1, upper: 0.45 };
+
+/**
+ * Features of a facial expression. Expressions blend by interpolating them.
+ */
+export type ExpressionShape = {
+  // Opacity of the eyebrows, hidden on a neutral face
+  brows: number;
+  // Eyebrow height, -1 (lowered) to 1 (raised)
+  browRaise: number;
+  // 1 lowers the inner ends (angry), -1 raises them (worried)
+  browTilt: number;
+  // Raises the left eyebrow above the right one
+  browAsymmetry: number;
+  // 1 for a smile, -1 for a frown
+  mouthCurve: number;
+  // Multiplies how open the eyes are
+  eyeOpen: number;
+};
+
+export const EXPRESSION_SHAPES: Record<Expression, ExpressionShape> = {
+  neutral: {
+    brows: 0,
+    browRaise: 0,
+    browTilt: 0,
+    browAsymmetry: 0,
+    mouthCurve: 0,
+    eyeOpen: 1,
+  },
+  happy: {
+    brows: 1,
+    browRaise: 0.3,
+    browTilt: 0,
+    browAsymmetry: 0,
+    mouthCurve: 1,
+    eyeOpen: 0.85,
+  },
+  annoyed: {
+    brows: 1,
+    browRaise: -0.4,
+    browTilt: 1,
+    browAsymmetry: 0,
+    mouthCurve: -0.6,
+    eyeOpen: 0.7,
+  },
+  surprised: {
+    brows: 1,
+    browRaise: 1,
+    browTilt: -0.2,
+    browAsymmetry: 0,
+    mouthCurve: 0,
+    eyeOpen: 1.3,
+  },
+  thinking: {
+    brows: 1,
+    browRaise: 0.1,
+    browTilt: 0,
+    browAsymmetry: 1,
+    mouthCurve: -0.2,
+    eyeOpen: 0.9,
+  },
+  sad: {
+    brows: 1,
+    browRaise: 0,
+    browTilt: -1,
+    browAsymmetry: 0,
+    mouthCurve: -1,
+    eyeOpen: 0.8,
+  },
+};
+
+/**
+ * Where the eyes look, from -1 to 1 on each axis with y pointing down.
+ */
+export type Gaze = { x: number; y: number };
+
 type BasicFaceProps = {
   ctx: CanvasRenderingContext2D;
   mouthScale: number;
+  mouthShape?: MouthShape;
   eyeScale: number;
+  gaze?: Gaze;
+  expression?: ExpressionShape;
+  appearance?: AgentAppearance;
   color?: string;
 };
 
@@ -24,11 +125,146 @@ const eye = (
   ctx.fill();
 };
 
+const background = (
+  ctx: CanvasRenderingContext2D,
+  shape: BackgroundShape,
+  center: [number, number],
+  radius: number
+) => {
+  ctx.beginPath();
+  if (shape === 'rounded') {
+    const size = radius * 1.8;
+    ctx.roundRect(
+      center[0] - size / 2,
+      center[1] - size / 2,
+      size,
+      size,
+      radius * 0.35
+    );
+  } else if (shape === 'hexagon') {
+    for (let i = 0; i < 6; i++) {
+      const angle = (Math.PI / 3) * i + Math.PI / 6;
+      ctx.lineTo(
+        center[0] + radius * Math.cos(angle),
+        center[1] + radius * Math.sin(angle)
+      );
+    }
+    ctx.closePath();
+  } else {
+    ctx.arc(center[0], center[1], radius, 0, Math.PI * 2);
+  }
+  ctx.fill();
+};
+
+const glasses = (
+  ctx: CanvasRenderingContext2D,
+  eyes: Array<[number, number]>,
+  radius: number
+) => {
+  const lens = radius * 2;
+  ctx.save();
+  ctx.strokeStyle = 'black';
+  ctx.lineWidth = radius * 0.35;
+  ctx.beginPath();
+  eyes.forEach(([x, y]) => {
+    ctx.moveTo(x + lens, y);
+    ctx.arc(x, y, lens, 0, Math.PI * 2);
+  });
+  // Bridge between the lenses
+  ctx.moveTo(eyes[0][0] + lens, eyes[0][1]);
+  ctx.lineTo(eyes[1][0] - lens, eyes[1][1]);
+  ctx.stroke();
+  ctx.restore();
+};
+
+const hat = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const brimY = height * 0.2;
+  ctx.save();
+  ctx.fillStyle = '#222';
+  // Crown, then the brim over it
+  ctx.fillRect(
+    width * 0.33,
+    height * 0.02,
+    width * 0.34,
+    brimY - height * 0.02
+  );
+  ctx.beginPath();
+  ctx.ellipse(
+    width / 2,
+    brimY,
+    width * 0.3,
+    height * 0.035,
+    0,
+    0,
+    Math.PI * 2
+  );
+  ctx.fill();
+  ctx.restore();
+};
+
+const mustache = (
+  ctx: CanvasRenderingContext2D,
+  center: [number, number],
+  mouthWidth: number
+) => {
+  ctx.save();
+  ctx.fillStyle = '#3b2a1a';
+  ctx.translate(center[0], center[1]);
+  [-1, 1].forEach(side => {
+    ctx.save();
+    ctx.scale(side, 1);
+    ctx.beginPath();
+    ctx.moveTo(0, 0);
+    ctx.quadraticCurveTo(
+      mouthWidth * 0.5,
+      -mouthWidth * 0.35,
+      mouthWidth * 1.15,
+      mouthWidth * 0.05
+    );
+    ctx.quadraticCurveTo(
+      mouthWidth * 0.5,
+      -mouthWidth * 0.05,
+      0,
+      mouthWidth * 0.12
+    );
+    ctx.fill();
+    ctx.restore();
+  });
+  ctx.restore();
+};
+
+const eyebrow = (
+  ctx: CanvasRenderingContext2D,
+  pos: [number, number],
+  radius: number,
+  // -1 for the left eyebrow, 1 for the right one
+  side: number,
+  { browRaise, browTilt, browAsymmetry }: ExpressionShape
+) => {
+  const raise = browRaise + (side < 0 ? browAsymmetry * 0.6 : 0);
+  const y = pos[1] - radius * (2.2 + raise);
+  const inner = pos[0] - side * radius;
+  const outer = pos[0] + side * radius * 1.2;
+  ctx.beginPath();
+  ctx.moveTo(outer, y - browTilt * radius * 0.3);
+  ctx.quadraticCurveTo(
+    pos[0],
+    y - radius * 0.4,
+    inner,
+    y + browTilt * radius * 0.6
+  );
+  ctx.stroke();
+};
+
 export function renderBasicFace(props: BasicFaceProps) {
   const {
     ctx,
     eyeScale: eyesOpenness,
+    gaze = { x: 0, y: 0 },
     mouthScale: mouthOpenness,
+    mouthShape = NEUTRAL_MOUTH,
+    expression = EXPRESSION_SHAPES.neutral,
+    appearance = DEFAULT_APPEARANCE,
     color,
   } = props;
   const { width, height } = ctx.canvas;
@@ -36,36 +272,113 @@ export function renderBasicFace(props: BasicFaceProps) {
   // Clear the canvas
   ctx.clearRect(0, 0, width, height);
 
-  // Draw the background circle
+  // Draw the background
   ctx.fillStyle = color || 'white';
-  ctx.beginPath();
-  ctx.arc(width / 2, height / 2, width / 2 - 20, 0, Math.PI * 2);
-  ctx.fill();
+  background(
+    ctx,
+    appearance.background,
+    [width / 2, height / 2],
+    width / 2 - 20
+  );
 
   const eyesCenter = [width / 2, height / 2.425];
-  const eyesOffset = width / 15;
-  const eyeRadius = width / 30;
+  const eyesOffset = (width / 15) * appearance.eyeSpacing;
+  const eyeRadius = (width / 30) * appearance.eyeSize;
   const eyesPosition: Array<[number, number]> = [
     [eyesCenter[0] - eyesOffset, eyesCenter[1]],
     [eyesCenter[0] + eyesOffset, eyesCenter[1]],
   ];
 
-  // Draw the eyes
+  // Draw the eyes, shifted towards where they look
   ctx.fillStyle = 'black';
-  eye(ctx, eyesPosition[0], eyeRadius, eyesOpenness + 0.1);
-  eye(ctx, eyesPosition[1], eyeRadius, eyesOpenness + 0.1);
+  const eyeScaleY = (eyesOpenness + 0.1) * expression.eyeOpen;
+  eyesPosition.forEach(([x, y]) => {
+    eye(
+      ctx,
+      [x + gaze.x * eyeRadius * 0.8, y + gaze.y * eyeRadius * 0.6],
+      eyeRadius,
+      eyeScaleY
+    );
+  });
+
+  // Draw the eyebrows
+  if (expression.brows > 0.01) {
+    ctx.save();
+    ctx.globalAlpha = Math.min(1, expression.brows);
+    ctx.strokeStyle = 'black';
+    ctx.lineWidth = eyeRadius * 0.45;
+    ctx.lineCap = 'round';
+    eyebrow(ctx, eyesPosition[0], eyeRadius, -1, expression);
+    eyebrow(ctx, eyesPosition[1], eyeRadius, 1, expression);
+    ctx.restore();
+  }
 
-  const mouthCenter = [width / 2, (height / 2.875) * 1.55];
-  const mouthExtent = [width / 10, (height / 5) * mouthOpenness + 10];
+  const mouthCenter: [number, number] = [width / 2, (height / 2.875) * 1.55];
+  const mouthExtent = [
+    (width / 10) * mouthShape.width * appearance.mouthWidth,
+    (height / 5) * mouthOpenness + 10,
+  ];
 
-  // Draw the mouth
+  // Draw the mouth. The outline is bent so the corners curve up in a smile
+  // and down in a frown.
+  const scaleY = mouthOpenness + height * 0.002;
+  const bend = (width / 25) * expression.mouthCurve;
+  const steps = 24;
   ctx.save();
   ctx.translate(mouthCenter[0], mouthCenter[1]);
-  ctx.scale(1, mouthOpenness + height * 0.002);
   ctx.fillStyle = 'black';
   ctx.beginPath();
-  ctx.ellipse(0, 0, mouthExtent[0], mouthExtent[1], 0, 0, Math.PI, false);
-  ctx.ellipse(0, 0, mouthExtent[0], mouthExtent[1] * 0.45, 0, 0, Math.PI, true);
+  for (let i = 0; i <= steps * 2; i++) {
+    // Lower lip from right to left, then the upper lip back
+    const lower = i <= steps;
+    const angle = (Math.PI * i) / steps;
+    const x = mouthExtent[0] * Math.cos(angle);
+    const extentY = mouthExtent[1] * (lower ? 1 : mouthShape.upper);
+    const y =
+      Math.abs(Math.sin(angle)) * extentY * (lower ? 1 : -1) * scaleY -
+      bend * (x / mouthExtent[0]) ** 2;
+    if (i === 0) {
+      ctx.moveTo(x, y);
+    } else {
+      ctx.lineTo(x, y);
+    }
+  }
   ctx.fill();
   ctx.restore();
+
+  // Draw the accessories
+  if (appearance.accessories.includes('glasses')) {
+    glasses(ctx, eyesPosition, eyeRadius);
+  }
+  if (appearance.accessories.includes('hat')) {
+    hat(ctx, width, height);
+  }
+  if (appearance.accessories.includes('mustache')) {
+    mustache(
+      ctx,
+      [mouthCenter[0], mouthCenter[1] - height * 0.045],
+      (width / 10) * appearance.mouthWidth
+    );
+  }
+}
+
+/**
+ * The classic avatar: a round face with vector eyes and mouth.
+ */
+export class BasicFaceRenderer implements AvatarRenderer {
+  private ctx: CanvasRenderingContext2D | null = null;
+
+  init(canvas: HTMLCanvasElement) {
+    this.ctx = canvas.getContext('2d');
+  }
+
+  render(frame: AvatarFrame) {
+    if (this.ctx) {
+      renderBasicFace({ ctx: this.ctx, ...frame });
+    }
+  }
+
+  dispose() {
+    this.ctx = null;
+  }
 }
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useEffect, useRef } from 'react';
+import c from 'classnames';
+import { useLiveAPIContext } from '@/contexts/LiveAPIContext';
+import { useAgent, useUser } from '@/lib/state';
+
+export default function Transcript() {
+  const { transcript } = useLiveAPIContext();
+  const { current } = useAgent();
+  const { name } = useUser();
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Keep the latest turn in view as partial text streams in
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [transcript]);
+
+  if (!transcript.length) {
+    return null;
+  }
+
+  return (
+    <div className="transcript">
+      <ul ref={listRef}>
+        {transcript.map(turn => (
+          <li
+            key={turn.id}
+            className={c(turn.role, {
+              partial: !turn.final,
+              truncated: turn.truncated,
+            })}
+          >
+            <h4>{turn.role === 'agent' ? current.name : name || 'You'}</h4>
+            {turn.truncated ? (
+              <p title="Interrupted">
+                {turn.truncated.heardText}
+                <span className="unheard">
+                  {turn.text.slice(turn.truncated.heardText.length)}
+                </span>
+              </p>
+            ) : (
+              <p>{turn.text}</p>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useEffect, useRef } from 'react';
+import { animationClock, FrameCallback } from '../../lib/animation-clock';
+
+/**
+ * Calls the latest `callback` on every frame of the shared animation clock.
+ * The callback may change between renders without resubscribing.
+ */
+export default function useAnimationFrame(callback: FrameCallback) {
+  const callbackRef = useRef(callback);
+  callbackRef.current = callback;
+
+  useEffect(
+    () =>
+      animationClock.subscribe((time, delta) =>
+        callbackRef.current(time, delta)
+      ),
+    []
+  );
+}
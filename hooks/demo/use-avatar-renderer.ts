@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RefObject, useEffect, useState } from 'react';
+import { AgentAvatar } from '../../lib/presets/agents';
+import {
+  AvatarRenderer,
+  createAvatarRenderer,
+} from '../../components/demo/avatar/avatar-renderers';
+
+/**
+ * Creates the renderer for an avatar on a canvas, and replaces it whenever
+ * the avatar style or its options change.
+ */
+export default function useAvatarRenderer(
+  canvasRef: RefObject<HTMLCanvasElement | null>,
+  avatar?: AgentAvatar
+) {
+  const [renderer, setRenderer] = useState<AvatarRenderer | null>(null);
+  // Options are compared by value, agents are updated immutably
+  const avatarKey = JSON.stringify(avatar || null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      return;
+    }
+    const next = createAvatarRenderer(avatar);
+    next.init(canvas);
+    setRenderer(next);
+    return () => {
+      next.dispose();
+      setRenderer(null);
+    };
+  }, [canvasRef, avatarKey]);
+
+  return renderer;
+}
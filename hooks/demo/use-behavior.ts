@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RefObject, useCallback, useEffect, useRef } from 'react';
+import { Gaze } from '../../components/demo/basic-face/basic-face-render';
+import { ConversationState } from '../../lib/conversation-state';
+import { useMicLevel } from '../../lib/state';
+import { easeFactor } from './use-face';
+
+/**
+ * What the face is doing while nobody is telling it what to do.
+ */
+export type IdleState = 'listening' | 'thinking' | 'speaking' | 'bored';
+
+export type BehaviorResults = {
+  state: IdleState;
+  /** Where the eyes look, from -1 to 1 on each axis. */
+  gaze: Gaze;
+  /** Multiplies how open the eyes are. */
+  eyeOpen: number;
+};
+
+// Levels above which the agent or the user count as talking
+const AGENT_SPEECH_THRESHOLD = 0.05;
+const USER_SPEECH_THRESHOLD = 0.03;
+
+// Seconds after which a speaker counts as done
+const SPEAKING_HANGOVER = 0.5;
+const LISTENING_HANGOVER = 1;
+// Seconds the agent thinks after the user stopped talking
+const THINKING_TIME = 6;
+// Seconds without any activity before the agent gets bored
+const BORED_TIME = 20;
+// Seconds the eyes keep following the pointer after it stopped moving
+const POINTER_ATTENTION = 3;
+
+// What the face does while each party has the floor
+const CONVERSATION_IDLE_STATES: Record<
+  Exclude<ConversationState, 'idle'>,
+  IdleState
+> = {
+  'user-speaking': 'listening',
+  waiting: 'thinking',
+  'model-speaking': 'speaking',
+  interrupted: 'listening',
+};
+
+const CENTER: Gaze = { x: 0, y: 0 };
+const THINKING_GAZE: Gaze = { x: 0.6, y: -0.7 };
+
+/**
+ * Derives an idle state from who spoke last and moves the eyes to match:
+ * they look towards the user while they talk, follow the pointer, glance up
+ * while thinking and wander around when bored.
+ * @returns A function advancing the behavior by a time step in seconds,
+ * given the agent's output volume. With the state of a live conversation the
+ * idle state follows it instead of guessing from the volumes.
+ */
+export default function useBehavior(
+  canvasRef: RefObject<HTMLCanvasElement | null>,
+  speed = 0.08
+) {
+  const pointerRef = useRef<{ x: number; y: number; time: number } | null>(
+    null
+  );
+  const gazeRef = useRef<Gaze>(CENTER);
+  const wanderRef = useRef({ target: CENTER, until: 0 });
+  // When the agent and the user were last heard, on the animation clock
+  const agentHeardRef = useRef(-Infinity);
+  const userHeardRef = useRef(-Infinity);
+  const activityRef = useRef(0);
+  const timeRef = useRef(0);
+
+  useEffect(() => {
+    const onPointerMove = (e: PointerEvent) => {
+      pointerRef.current = {
+        x: e.clientX,
+        y: e.clientY,
+        time: timeRef.current,
+      };
+      activityRef.current = timeRef.current;
+    };
+    window.addEventListener('pointermove', onPointerMove);
+    return () => window.removeEventListener('pointermove', onPointerMove);
+  }, []);
+
+  return useCallback(
+    (
+      time: number,
+      delta: number,
+      agentVolume: number,
+      conversationState?: ConversationState
+    ): BehaviorResults => {
+      timeRef.current = time;
+      const micLevel = useMicLevel.getState().level;
+
+      if (agentVolume > AGENT_SPEECH_THRESHOLD) {
+        agentHeardRef.current = time;
+        activityRef.current = time;
+      }
+      if (micLevel > USER_SPEECH_THRESHOLD) {
+        userHeardRef.current = time;
+        activityRef.current = time;
+      }
+
+      let state: IdleState = 'listening';
+      if (conversationState && conversationState !== 'idle') {
+        state = CONVERSATION_IDLE_STATES[conversationState];
+        activityRef.current = time;
+      } else if (conversationState) {
+        if (time - activityRef.current > BORED_TIME) {
+          state = 'bored';
+        }
+      } else if (time - agentHeardRef.current < SPEAKING_HANGOVER) {
+        state = 'speaking';
+      } else if (time - userHeardRef.current < LISTENING_HANGOVER) {
+        state = 'listening';
+      } else if (
+        userHeardRef.current > agentHeardRef.current &&
+        time - userHeardRef.current < THINKING_TIME
+      ) {
+        state = 'thinking';
+      } else if (time - activityRef.current > BORED_TIME) {
+        state = 'bored';
+      }
+
+      let target = CENTER;
+      const pointer = pointerRef.current;
+      const canvas = canvasRef.current;
+      if (state === 'thinking') {
+        target = THINKING_GAZE;
+      } else if (state === 'bored') {
+        if (time >= wanderRef.current.until) {
+          wanderRef.current = {
+            target: {
+              x: Math.random() * 2 - 1,
+              y: Math.random() * 1.2 - 0.6,
+            },
+            until: time + 2 + Math.random() * 2,
+          };
+        }
+        target = wanderRef.current.target;
+      } else if (micLevel > USER_SPEECH_THRESHOLD) {
+        // Look down towards the microphone, more so the louder the user is
+        target = { x: 0, y: Math.min(1, micLevel * 10) };
+      } else if (pointer && canvas && time - pointer.time < POINTER_ATTENTION) {
+        const rect = canvas.getBoundingClientRect();
+        const reach = Math.max(rect.width, 1) * 1.5;
+        target = {
+          x: clampUnit((pointer.x - (rect.left + rect.width / 2)) / reach),
+          y: clampUnit((pointer.y - (rect.top + rect.height / 2)) / reach),
+        };
+      }
+
+      const factor = easeFactor(speed, delta);
+      const gaze = gazeRef.current;
+      gazeRef.current = {
+        x: gaze.x + (target.x - gaze.x) * factor,
+        y: gaze.y + (target.y - gaze.y) * factor,
+      };
+
+      return {
+        state,
+        gaze: gazeRef.current,
+        // Heavy eyelids when bored
+        eyeOpen: state === 'bored' ? 0.7 : 1,
+      };
+    },
+    [canvasRef, speed]
+  );
+}
+
+function clampUnit(value: number) {
+  return Math.max(-1, Math.min(1, value));
+}
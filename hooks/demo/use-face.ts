@@ -2,14 +2,33 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useRef } from 'react';
 import { useLiveAPIContext } from '../../contexts/LiveAPIContext';
+import {
+  EXPRESSION_SHAPES,
+  ExpressionShape,
+  MouthShape,
+  NEUTRAL_MOUTH,
+} from '../../components/demo/basic-face/basic-face-render';
+import { Expression } from '../../lib/expressions';
+import { useAgentOutput } from '../../lib/state';
+import { SpeechFeatures, Viseme } from '../../lib/worklets/speech-analysis';
 
 export type FaceResults = {
-  /** A value that represents how open the eyes are. */
-  eyesScale: number;
   /** A value that represents how open the mouth is. */
   mouthScale: number;
+  /** The shape of the mouth for the sound being spoken. */
+  mouthShape: MouthShape;
+  /** The facial expression, part way through a transition. */
+  expression: ExpressionShape;
+};
+
+// Mouth shape and openness, relative to the volume, of each viseme
+const VISEMES: Record<Viseme, MouthShape & { openness: number }> = {
+  open: { ...NEUTRAL_MOUTH, openness: 1 },
+  wide: { width: 1.35, upper: 0.2, openness: 0.6 },
+  round: { width: 0.65, upper: 1, openness: 0.9 },
+  closed: { ...NEUTRAL_MOUTH, openness: 0 },
 };
 
 /*
@@ -36,10 +55,6 @@ function easeOutCirc(x: number): number {
 }
 */
 
-function easeOutQuint(x: number): number {
-  return 1 - Math.pow(1 - x, 5);
-}
-
 // Constrain value between lower and upper limits
 function clamp(x: number, lowerlimit: number, upperlimit: number) {
   if (x < lowerlimit) x = lowerlimit;
@@ -55,41 +70,143 @@ function smoothstep(edge0: number, edge1: number, x: number) {
   return x * x * (3 - 2 * x);
 }
 
+// Converts an easing rate tuned per frame at 60 fps to a time step
+export function easeFactor(speed: number, delta: number) {
+  return 1 - Math.pow(1 - speed, delta * 60);
+}
+
 type BlinkProps = {
-  speed: number;
+  /** How long a blink takes, in seconds. */
+  duration?: number;
+  /** Shortest and longest time between blinks, in seconds. */
+  interval?: [number, number];
 };
 
-export function useBlink({ speed }: BlinkProps) {
-  const [eyeScale, setEyeScale] = useState(1);
-  const [frame, setFrame] = useState(0);
-
-  const frameId = useRef(-1);
-
-  useEffect(() => {
-    function nextFrame() {
-      frameId.current = window.requestAnimationFrame(() => {
-        setFrame(frame + 1);
-        let s = easeOutQuint((Math.sin(frame * speed) + 1) * 2);
-        s = smoothstep(0.1, 0.25, s);
-        s = Math.min(1, s);
-        setEyeScale(s);
-        nextFrame();
-      });
-    }
-
-    nextFrame();
-
-    return () => {
-      window.cancelAnimationFrame(frameId.current);
-    };
-  }, [speed, eyeScale, frame]);
-
-  return eyeScale;
+/**
+ * Blinks at random intervals, sometimes twice in a row.
+ * @returns A function giving how open the eyes are at a time in seconds
+ */
+export function useBlink({
+  duration = 0.15,
+  interval = [2, 6],
+}: BlinkProps = {}) {
+  const nextBlinkRef = useRef<number | null>(null);
+  const blinkStartRef = useRef<number | null>(null);
+  const [minInterval, maxInterval] = interval;
+
+  return useCallback(
+    (time: number) => {
+      if (blinkStartRef.current !== null) {
+        const progress = (time - blinkStartRef.current) / duration;
+        if (progress < 1) {
+          // Close quickly, open a little slower
+          return progress < 0.4
+            ? 1 - smoothstep(0, 0.4, progress)
+            : smoothstep(0.4, 1, progress);
+        }
+        blinkStartRef.current = null;
+        nextBlinkRef.current =
+          time +
+          (Math.random() < 0.2
+            ? 0.1
+            : minInterval + Math.random() * (maxInterval - minInterval));
+      } else if (nextBlinkRef.current === null) {
+        nextBlinkRef.current = time + minInterval;
+      } else if (time >= nextBlinkRef.current) {
+        blinkStartRef.current = time;
+      }
+      return 1;
+    },
+    [duration, minInterval, maxInterval]
+  );
 }
 
-export default function useFace() {
-  const { volume } = useLiveAPIContext();
-  const eyeScale = useBlink({ speed: 0.0125 });
+/**
+ * @param speed - Share of the remaining distance covered every frame
+ * @returns A function easing the features of the face towards an expression
+ * by a time step in seconds
+ */
+export function useExpression(speed = 0.12) {
+  const shapeRef = useRef<ExpressionShape>(EXPRESSION_SHAPES.neutral);
+
+  return useCallback(
+    (expression: Expression, delta: number) => {
+      const target = EXPRESSION_SHAPES[expression];
+      const current = shapeRef.current;
+      const factor = easeFactor(speed, delta);
+      const next = { ...current };
+      (Object.keys(target) as Array<keyof ExpressionShape>).forEach(key => {
+        const diff = target[key] - current[key];
+        next[key] =
+          Math.abs(diff) > 0.001 ? current[key] + diff * factor : target[key];
+      });
+      shapeRef.current = next;
+      return next;
+    },
+    [speed]
+  );
+}
 
-  return { eyeScale, mouthScale: volume / 2 };
+/**
+ * Tracks the inputs of the face and returns a function computing the mouth
+ * and expression for a frame of the animation clock, so the face animates
+ * without re-rendering. A neutral agent shows the `idleExpression` instead.
+ * @param getVolume - Gives the volume driving the mouth every frame instead
+ * of the live session's output volume, e.g. for panelists with their own
+ * sessions. Without speech features the mouth only opens and closes.
+ * @param expressionOverride - Shown instead of the live session's expression
+ */
+export default function useFace(
+  getVolume?: () => number,
+  speechOverride?: SpeechFeatures,
+  expressionOverride?: Expression
+) {
+  const { expression: liveExpression } = useLiveAPIContext();
+  const isLive = getVolume === undefined;
+  const inputsRef = useRef({
+    getVolume,
+    speech: speechOverride,
+    expression: 'neutral' as Expression,
+  });
+  inputsRef.current = {
+    getVolume,
+    speech: speechOverride,
+    expression: expressionOverride ?? (isLive ? liveExpression : 'neutral'),
+  };
+  const easeExpression = useExpression();
+
+  return useCallback(
+    (
+      time: number,
+      delta: number,
+      idleExpression: Expression = 'neutral'
+    ): FaceResults => {
+      const inputs = inputsRef.current;
+      // Faces with their own volume have no speech features unless given
+      const output = useAgentOutput.getState();
+      const isLive = inputs.getVolume === undefined;
+      const volume = inputs.getVolume ? inputs.getVolume() : output.volume;
+      const speech = inputs.speech ?? (isLive ? output.speech : undefined);
+      const { expression } = inputs;
+      const expressionShape = easeExpression(
+        expression === 'neutral' ? idleExpression : expression,
+        delta
+      );
+
+      if (!speech) {
+        return {
+          mouthScale: volume / 2,
+          mouthShape: NEUTRAL_MOUTH,
+          expression: expressionShape,
+        };
+      }
+      const { openness, ...mouthShape } = VISEMES[speech.viseme];
+      return {
+        mouthScale: (volume / 2) * openness,
+        mouthShape,
+        expression: expressionShape,
+      };
+    },
+    [easeExpression]
+  );
 }
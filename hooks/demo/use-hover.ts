@@ -2,7 +2,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { useEffect, useRef, useState } from 'react';
+import { useCallback } from 'react';
 
 interface HoverProps {
   /** Maximum distance in pixels that the element will move up and down from its initial position. */
@@ -11,35 +11,16 @@ interface HoverProps {
   frequency?: number;
 }
 
+/**
+ * @returns A function giving the hover offset at a time in seconds
+ */
 export default function useHover({
   amplitude = 10,
   frequency = 0.5,
 }: HoverProps = {}) {
-  const [offset, setOffset] = useState(0);
-  const startTimeRef = useRef(Date.now());
-  const animationFrameRef = useRef<number>(0);
-
-  useEffect(() => {
-    const animate = () => {
-      // Calculate time elapsed in seconds since the animation started
-      const elapsed = (Date.now() - startTimeRef.current) / 1000;
-      // Create smooth sinusoidal motion
-      const newOffset = Math.sin(elapsed * frequency * Math.PI) * amplitude;
-
-      setOffset(newOffset);
-      animationFrameRef.current = requestAnimationFrame(animate);
-    };
-
-    // Start the animation loop
-    animationFrameRef.current = requestAnimationFrame(animate);
-
-    // Cancel animation frame when component unmounts or when amplitude/frequency changes
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-    };
-  }, [amplitude, frequency]);
-
-  return offset;
+  return useCallback(
+    // Create smooth sinusoidal motion
+    (time: number) => Math.sin(time * frequency * Math.PI) * amplitude,
+    [amplitude, frequency]
+  );
 }
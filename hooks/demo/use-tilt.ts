@@ -2,15 +2,13 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { useEffect, useRef, useState } from 'react';
+import { useCallback, useRef } from 'react';
 
 export type UseTiltProps = {
   /** Maximum tilt angle (degrees) in either direction. */
   maxAngle: number;
   /** How quickly the tilt occurs. Lower values create slower, gentler movement. */
   speed?: number;
-  /** Whether tilt mode is currently active. */
-  isActive: boolean;
 };
 
 /**
@@ -27,75 +25,42 @@ export function scalemap(
   return start2 + (stop2 - start2) * ((value - start1) / (stop1 - start1));
 }
 
-export default function useTilt({
-  maxAngle = 5,
-  speed = 0.1,
-  isActive = false,
-}: UseTiltProps) {
-  const [angle, setAngle] = useState<number>(0);
-  const [targetAngle, setTargetAngle] = useState<number>(0);
-  const timeoutRef = useRef<NodeJS.Timeout>(undefined);
-  const animationFrameRef = useRef<number>(0);
-
-  // Reset to center when not active
-  useEffect(() => {
-    if (!isActive) {
-      setTargetAngle(0);
-    }
-  }, [isActive]);
-
-  // Schedule next random tilt (only when active)
-  useEffect(() => {
-    if (!isActive) return;
+/**
+ * @returns A function advancing the tilt by a time step in seconds and giving
+ * the angle. The head tilts randomly while active and returns to center
+ * otherwise.
+ */
+export default function useTilt({ maxAngle = 5, speed = 0.1 }: UseTiltProps) {
+  const angleRef = useRef(0);
+  const targetAngleRef = useRef(0);
+  // When to pick the next target angle, on the animation clock
+  const nextTiltRef = useRef<number | null>(null);
 
-    const scheduleNextTilt = () => {
-      const delay = 1000 + Math.random() * 2000; // Random delay between 1-3 seconds
-      timeoutRef.current = setTimeout(() => {
-        // First, return to center if we're not there
-        if (Math.abs(targetAngle) > 0.1) {
-          setTargetAngle(0);
-          scheduleNextTilt();
-        } else {
-          // Then, pick a new random angle
-          const newAngle =
-            (Math.random() > 0.5 ? 1 : -1) *
-            (maxAngle * 0.3 + Math.random() * maxAngle * 0.7);
-          setTargetAngle(newAngle);
-          scheduleNextTilt();
+  return useCallback(
+    (time: number, delta: number, isActive: boolean) => {
+      if (!isActive) {
+        // Reset to center when not active
+        targetAngleRef.current = 0;
+        nextTiltRef.current = null;
+      } else if (nextTiltRef.current === null || time >= nextTiltRef.current) {
+        if (nextTiltRef.current !== null) {
+          // First, return to center if we're not there
+          targetAngleRef.current =
+            Math.abs(targetAngleRef.current) > 0.1
+              ? 0
+              : // Then, pick a new random angle
+                (Math.random() > 0.5 ? 1 : -1) *
+                (maxAngle * 0.3 + Math.random() * maxAngle * 0.7);
         }
-      }, delay);
-    };
-
-    scheduleNextTilt();
-
-    return () => {
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-      }
-    };
-  }, [maxAngle, isActive]);
-
-  // Animate current angle towards target angle
-  useEffect(() => {
-    const animate = () => {
-      setAngle(currentAngle => {
-        const diff = targetAngle - currentAngle;
-        // Ease towards target angle
-        const delta = diff * speed;
-        return currentAngle + delta;
-      });
-
-      animationFrameRef.current = requestAnimationFrame(animate);
-    };
-
-    animationFrameRef.current = requestAnimationFrame(animate);
-
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
+        // Random delay between 1-3 seconds
+        nextTiltRef.current = time + 1 + Math.random() * 2;
       }
-    };
-  }, [targetAngle, speed]);
 
-  return angle;
+      // Ease towards target angle
+      const diff = targetAngleRef.current - angleRef.current;
+      angleRef.current += diff * (1 - Math.pow(1 - speed, delta * 60));
+      return angleRef.current;
+    },
+    [maxAngle, speed]
+  );
 }
@@ -0,0 +1,14 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useLiveAPIContext } from '../../contexts/LiveAPIContext';
+import { ConversationState } from '../../lib/conversation-state';
+
+/**
+ * Who has the floor in the live session: nobody, the user, the model, or
+ * the model is being waited on or was just interrupted.
+ */
+export function useConversationState(): ConversationState {
+  return useLiveAPIContext().conversationState;
+}
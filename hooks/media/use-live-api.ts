@@ -19,20 +19,61 @@
  */
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { GenAILiveClient, GroundingChunk } from '../../lib/genai-live-client';
-import { LiveConnectConfig } from '@google/genai';
-import { AudioStreamer } from '../../lib/audio-streamer';
+import {
+  GenAILiveClient,
+  GroundingChunk,
+  LiveClientStatus,
+} from '../../lib/genai-live-client';
+import { LiveConnectConfig, LiveServerContent } from '@google/genai';
+import {
+  AudioStreamer,
+  DEFAULT_FADE_OUT_TIME,
+} from '../../lib/audio-streamer';
 import { audioContext } from '../../lib/utils';
-import VolMeterWorket from '../../lib/worklets/vol-meter';
+import SpeechAnalysisWorklet, {
+  SpeechFeatures,
+} from '../../lib/worklets/speech-analysis';
 import { DEFAULT_LIVE_API_MODEL } from '../../lib/constants';
+import { ToolDispatcher } from '../../lib/tools';
+import { SessionRecorder } from '../../lib/session-recorder';
+import {
+  ConversationState,
+  ConversationStateMachine,
+} from '../../lib/conversation-state';
+import {
+  Expression,
+  expressionEvents,
+  ExpressionTagParser,
+} from '../../lib/expressions';
+import {
+  useAgent,
+  useAgentOutput,
+  useAudioSettings,
+  useMicLevel,
+} from '../../lib/state';
+import {
+  appendTranscription,
+  finalizeTurns,
+  TranscriptTurn,
+  truncateTurn,
+} from '../../lib/transcript';
 
 export type UseLiveApiResults = {
   client: GenAILiveClient;
   connect: (config: LiveConnectConfig) => Promise<void>;
   disconnect: () => Promise<void>;
+  // Sends a text turn and adds it to the transcript
+  sendText: (text: string) => void;
+  // Stays true while a dropped session is being resumed
   connected: boolean;
-  volume: number;
+  status: LiveClientStatus;
+  // Set by the agent with a tool call or a sentiment tag
+  expression: Expression;
+  // Who has the floor, see `useConversationState`
+  conversationState: ConversationState;
   groundingChunks: GroundingChunk[];
+  transcript: TranscriptTurn[];
+  sessionRecorder: SessionRecorder;
 };
 
 export function useLiveApi({
@@ -44,45 +85,177 @@ export function useLiveApi({
 }): UseLiveApiResults {
   const client = useMemo(() => new GenAILiveClient(apiKey, model), [apiKey, model]);
   const audioStreamerRef = useRef<AudioStreamer | null>(null);
+  const conversationRef = useRef<ConversationStateMachine | null>(null);
+  const [sessionRecorder] = useState(() => new SessionRecorder());
+  const [audioStreamerReady, setAudioStreamerReady] = useState(false);
+  const output = useAudioSettings(state => state.output);
+  const speakerMuted = useAudioSettings(state => state.speakerMuted);
+  const agentVolume = useAgent(state => state.current.volume ?? 1);
 
-  const [volume, setVolume] = useState(0);
   const [connected, setConnected] = useState(false);
+  const [status, setStatus] = useState<LiveClientStatus>(client.status);
   const [groundingChunks, setGroundingChunks] = useState<GroundingChunk[]>([]);
+  const [transcript, setTranscript] = useState<TranscriptTurn[]>([]);
+  const [expression, setExpression] = useState<Expression>('neutral');
+  const [conversationState, setConversationState] =
+    useState<ConversationState>('idle');
 
   // Initialize audio context and streamer
   useEffect(() => {
+    // Set when the effect is cleaned up before the context is ready, so a
+    // remount (or StrictMode's double run) creates a single streamer
+    let cancelled = false;
     if (!audioStreamerRef.current) {
       audioContext({ id: 'audio-out' })
         .then((audioCtx: AudioContext) => {
+          if (cancelled || audioStreamerRef.current) return;
           audioStreamerRef.current = new AudioStreamer(audioCtx);
+          audioStreamerRef.current.onComplete = () => {
+            conversationRef.current?.playbackEnded();
+          };
+          audioStreamerRef.current.onSchedule = (
+            samples,
+            sampleRate,
+            startTime
+          ) => {
+            sessionRecorder.addOutput(
+              samples,
+              sampleRate,
+              performance.now() + (startTime - audioCtx.currentTime) * 1000
+            );
+          };
           audioStreamerRef.current
-            .addWorklet<any>('vumeter-out', VolMeterWorket, (ev: any) => {
-              setVolume(ev.data.volume);
-            })
+            .addWorklet<any>(
+              'speech-analysis-out',
+              SpeechAnalysisWorklet,
+              (ev: MessageEvent<SpeechFeatures>) => {
+                useAgentOutput.getState().setSpeech(ev.data);
+              }
+            )
             .catch(err => {
               console.error('Error adding worklet:', err);
             });
+          setAudioStreamerReady(true);
         })
         .catch(error => {
           console.error('Failed to initialize output audio context:', error);
         });
     }
+    return () => {
+      cancelled = true;
+    };
   }, []);
 
+  // Apply the speaker settings
+  useEffect(() => {
+    audioStreamerRef.current?.setVolume(
+      speakerMuted ? 0 : output.volume * agentVolume
+    );
+  }, [audioStreamerReady, output.volume, agentVolume, speakerMuted]);
+
+  useEffect(() => {
+    if (audioStreamerRef.current) {
+      audioStreamerRef.current.fadeOutTime =
+        output.fadeOutTime ?? DEFAULT_FADE_OUT_TIME;
+    }
+  }, [audioStreamerReady, output.fadeOutTime]);
+
+  useEffect(() => {
+    audioStreamerRef.current
+      ?.setSinkId(output.deviceId || '')
+      .catch(error => {
+        console.error('Error switching speaker:', error);
+      });
+  }, [audioStreamerReady, output.deviceId]);
+
+  // Follow the turns of the conversation
+  useEffect(() => {
+    const conversation = new ConversationStateMachine(client);
+    conversationRef.current = conversation;
+    conversation.on('change', setConversationState);
+    setConversationState(conversation.state);
+    const unsubscribe = useMicLevel.subscribe(({ level }) =>
+      conversation.setMicLevel(level)
+    );
+    return () => {
+      unsubscribe();
+      conversation.dispose();
+      conversationRef.current = null;
+    };
+  }, [client]);
+
+  // Answer tool calls with the registered tools
+  useEffect(() => {
+    const toolDispatcher = new ToolDispatcher(client);
+    return () => toolDispatcher.dispose();
+  }, [client]);
+
   useEffect(() => {
+    const tagParser = new ExpressionTagParser();
+
     const onOpen = () => {
       setConnected(true);
       setGroundingChunks([]);
+      setTranscript([]);
+      setExpression('neutral');
     };
 
     const onClose = () => {
       setConnected(false);
       setGroundingChunks([]);
+      setTranscript(finalizeTurns);
+      setExpression('neutral');
     };
 
-    const stopAudioStreamer = () => {
-      if (audioStreamerRef.current) {
-        audioStreamerRef.current.stop();
+    // Strips sentiment tags from the agent's text and applies them
+    const appendAgentText = (fragment: string, finished: boolean) => {
+      const parsed = tagParser.push(fragment);
+      const text = finished ? parsed.text + tagParser.flush() : parsed.text;
+      if (parsed.expression) {
+        setExpression(parsed.expression);
+      }
+      setTranscript(prev => appendTranscription(prev, 'agent', text, finished));
+    };
+
+    const onInterrupted = () => {
+      tagParser.flush();
+      const streamer = audioStreamerRef.current;
+      // What was flushed is never heard, except while it fades out
+      sessionRecorder.truncateOutput(
+        performance.now() + (streamer?.fadeOutTime ?? 0) * 1000
+      );
+      const progress = streamer?.stop();
+      setTranscript(prev => {
+        const turns = progress
+          ? truncateTurn(prev, progress.played, progress.total)
+          : prev;
+        return finalizeTurns(turns);
+      });
+    };
+
+    const onTurnComplete = () => {
+      const held = tagParser.flush();
+      setTranscript(prev =>
+        finalizeTurns(appendTranscription(prev, 'agent', held, true))
+      );
+    };
+
+    const onInputTranscription = (text: string, finished: boolean) => {
+      setTranscript(prev => appendTranscription(prev, 'user', text, finished));
+    };
+
+    const onOutputTranscription = (text: string, finished: boolean) => {
+      appendAgentText(text, finished);
+    };
+
+    // Text parts are streamed when the model answers in text
+    const onContent = (content: LiveServerContent) => {
+      const text = content.modelTurn?.parts
+        ?.filter(part => part.text && !part.thought)
+        .map(part => part.text)
+        .join('');
+      if (text) {
+        appendAgentText(text, false);
       }
     };
 
@@ -92,26 +265,45 @@ export function useLiveApi({
       }
     };
 
+    // Only the agent of this session changes its face
+    const onExpression = (expression: Expression, source: GenAILiveClient) => {
+      if (source === client) {
+        setExpression(expression);
+      }
+    };
+
     const onGrounding = (chunks: GroundingChunk[]) => {
       setGroundingChunks(prev => [...prev, ...chunks]);
     };
 
     // Bind event listeners
+    client.on('statuschange', setStatus);
     client.on('open', onOpen);
     client.on('close', onClose);
-    client.on('interrupted', stopAudioStreamer);
+    client.on('interrupted', onInterrupted);
+    client.on('turncomplete', onTurnComplete);
     client.on('audio', onAudio);
     client.on('grounding', onGrounding);
+    client.on('inputTranscription', onInputTranscription);
+    client.on('outputTranscription', onOutputTranscription);
+    client.on('content', onContent);
+    expressionEvents.on('change', onExpression);
 
     return () => {
       // Clean up event listeners
+      client.off('statuschange', setStatus);
       client.off('open', onOpen);
       client.off('close', onClose);
-      client.off('interrupted', stopAudioStreamer);
+      client.off('interrupted', onInterrupted);
+      client.off('turncomplete', onTurnComplete);
       client.off('audio', onAudio);
       client.off('grounding', onGrounding);
+      client.off('inputTranscription', onInputTranscription);
+      client.off('outputTranscription', onOutputTranscription);
+      client.off('content', onContent);
+      expressionEvents.off('change', onExpression);
     };
-  }, [client]);
+  }, [client, sessionRecorder]);
 
   const connect = useCallback(
     async (config: LiveConnectConfig) => {
@@ -149,12 +341,28 @@ export function useLiveApi({
     setConnected(false);
   }, [client, connected]);
 
+  const sendText = useCallback(
+    (text: string) => {
+      if (!connected || client.status !== 'connected') {
+        return;
+      }
+      client.send({ text });
+      setTranscript(prev => appendTranscription(prev, 'user', text, true));
+    },
+    [client, connected]
+  );
+
   return {
     client,
+    sendText,
     connect,
     connected,
+    status,
     disconnect,
-    volume,
+    expression,
+    conversationState,
     groundingChunks,
+    transcript,
+    sessionRecorder,
   };
 }
\ No newline at end of file
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useEffect, useState } from 'react';
+
+/**
+ * Lists the media devices of a kind, updating as devices are plugged in or
+ * removed.
+ */
+export function useMediaDevices(kind: MediaDeviceKind) {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.enumerateDevices) {
+      return;
+    }
+    let cancelled = false;
+
+    const updateDevices = async () => {
+      try {
+        const all = await navigator.mediaDevices.enumerateDevices();
+        if (!cancelled) {
+          setDevices(all.filter(device => device.kind === kind));
+        }
+      } catch (error) {
+        console.error('Error listing media devices:', error);
+      }
+    };
+
+    updateDevices();
+    navigator.mediaDevices.addEventListener('devicechange', updateDevices);
+    return () => {
+      cancelled = true;
+      navigator.mediaDevices.removeEventListener('devicechange', updateDevices);
+    };
+  }, [kind]);
+
+  return devices;
+}
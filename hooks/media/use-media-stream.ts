@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useEffect, useState } from 'react';
+
+export type UseMediaStreamResult = {
+  type: 'webcam' | 'screen';
+  start: () => Promise<MediaStream>;
+  stop: () => void;
+  isStreaming: boolean;
+  stream: MediaStream | null;
+};
+
+/**
+ * Shared state handling for a video stream, started by `getStream`.
+ */
+export function useMediaStream(
+  type: UseMediaStreamResult['type'],
+  getStream: () => Promise<MediaStream>
+): UseMediaStreamResult {
+  const [stream, setStream] = useState<MediaStream | null>(null);
+
+  // Reflect the stream ending outside the app, e.g. the browser's
+  // "Stop sharing" button. The tracks are stopped once the stream is
+  // replaced or the component using it goes away.
+  useEffect(() => {
+    if (!stream) return;
+    const onEnded = () => setStream(null);
+    const tracks = stream.getTracks();
+    tracks.forEach(track => track.addEventListener('ended', onEnded));
+    return () => {
+      tracks.forEach(track => {
+        track.removeEventListener('ended', onEnded);
+        track.stop();
+      });
+    };
+  }, [stream]);
+
+  const start = async () => {
+    const mediaStream = await getStream();
+    setStream(mediaStream);
+    return mediaStream;
+  };
+
+  const stop = () => {
+    stream?.getTracks().forEach(track => track.stop());
+    setStream(null);
+  };
+
+  return {
+    type,
+    start,
+    stop,
+    isStreaming: !!stream,
+    stream,
+  };
+}
+
+export function useWebcam(): UseMediaStreamResult {
+  return useMediaStream('webcam', () =>
+    navigator.mediaDevices.getUserMedia({ video: true })
+  );
+}
+
+export function useScreenCapture(): UseMediaStreamResult {
+  return useMediaStream('screen', () =>
+    navigator.mediaDevices.getDisplayMedia({ video: true })
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { LiveConnectConfig } from '@google/genai';
+import { AudioRecorder } from '../../lib/audio-recorder';
+import { Expression } from '../../lib/expressions';
+import { ModeratorPolicy, PanelSession } from '../../lib/panel-session';
+import { Agent } from '../../lib/presets/agents';
+import { useAudioSettings, usePanelVolumes } from '../../lib/state';
+
+export type UsePanelSessionResults = {
+  start: (
+    agents: Agent[],
+    policy: ModeratorPolicy,
+    createConfig: (agent: Agent) => LiveConnectConfig
+  ) => Promise<void>;
+  stop: () => void;
+  running: boolean;
+  activeSpeakerId: string | null;
+  // Expressions the panelists chose, by agent id
+  expressions: Record<string, Expression>;
+  muted: boolean;
+  setMuted: (muted: boolean) => void;
+};
+
+export function usePanelSession({
+  apiKey,
+}: {
+  apiKey: string;
+}): UsePanelSessionResults {
+  const [session, setSession] = useState<PanelSession | null>(null);
+  // The panel whose panelists are still connecting
+  const startingRef = useRef<PanelSession | null>(null);
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
+  const [expressions, setExpressions] = useState<Record<string, Expression>>(
+    {}
+  );
+  const [audioRecorder] = useState(() => new AudioRecorder());
+  const [muted, setMuted] = useState(false);
+  const audioInput = useAudioSettings(state => state.input);
+  const output = useAudioSettings(state => state.output);
+  const speakerMuted = useAudioSettings(state => state.speakerMuted);
+
+  useEffect(() => {
+    session?.setOutput({ ...output, muted: speakerMuted });
+  }, [session, output, speakerMuted]);
+
+  useEffect(() => {
+    audioRecorder.setInputOptions(audioInput).catch(error => {
+      console.error('Error switching microphone:', error);
+    });
+  }, [audioRecorder, audioInput]);
+
+  useEffect(() => {
+    const onError = (error: Error) => {
+      console.error('Error switching microphone:', error);
+    };
+    audioRecorder.on('error', onError);
+    return () => {
+      audioRecorder.off('error', onError);
+    };
+  }, [audioRecorder]);
+
+  const start = useCallback(
+    async (
+      agents: Agent[],
+      policy: ModeratorPolicy,
+      createConfig: (agent: Agent) => LiveConnectConfig
+    ) => {
+      const panelSession = new PanelSession(apiKey, agents, policy);
+      panelSession.on('speaker', setActiveSpeakerId);
+      // Volumes change at audio rate, the faces read them every frame
+      panelSession.on('volume', usePanelVolumes.getState().setVolume);
+      panelSession.on('expression', (agentId, expression) =>
+        setExpressions(prev => ({ ...prev, [agentId]: expression }))
+      );
+      panelSession.on('close', () => {
+        setSession(null);
+        usePanelVolumes.getState().reset();
+        setExpressions({});
+      });
+      startingRef.current = panelSession;
+      try {
+        await panelSession.start(createConfig);
+      } finally {
+        if (startingRef.current === panelSession) {
+          startingRef.current = null;
+        }
+      }
+      // Only show the panel once every panelist is connected
+      if (panelSession.running) {
+        setSession(panelSession);
+      }
+    },
+    [apiKey]
+  );
+
+  const stop = useCallback(() => {
+    (session ?? startingRef.current)?.stop();
+  }, [session]);
+
+  // Stop the panel when the component using it goes away
+  useEffect(() => {
+    return () => session?.stop();
+  }, [session]);
+
+  useEffect(() => {
+    return () => startingRef.current?.stop();
+  }, []);
+
+  // Stream the microphone to whoever has the floor
+  useEffect(() => {
+    if (!session || muted) {
+      return;
+    }
+    const onData = (base64: string) => {
+      session.sendRealtimeInput([
+        {
+          mimeType: 'audio/pcm;rate=16000',
+          data: base64,
+        },
+      ]);
+    };
+    audioRecorder.on('data', onData);
+    audioRecorder.start().catch(error => {
+      console.error('Error starting audio recorder:', error);
+    });
+    return () => {
+      audioRecorder.off('data', onData);
+      audioRecorder.stop();
+    };
+  }, [session, muted, audioRecorder]);
+
+  return {
+    start,
+    stop,
+    running: !!session,
+    activeSpeakerId,
+    expressions,
+    muted,
+    setMuted,
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AudioRecorder } from '../../lib/audio-recorder';
+import { GenAILiveClient } from '../../lib/genai-live-client';
+import { TurnDetection } from '../../lib/live-config';
+
+const PUSH_TO_TALK_KEY = ' ';
+
+function isTyping(target: EventTarget | null) {
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement
+  );
+}
+
+/**
+ * Decides which microphone audio reaches the model. With server turn
+ * detection everything is sent; otherwise audio only flows between explicit
+ * activity start and end signals, triggered by the in-browser voice activity
+ * detector or by holding the push-to-talk key.
+ */
+export function useTurnDetection({
+  client,
+  audioRecorder,
+  connected,
+  mode,
+}: {
+  client: GenAILiveClient;
+  audioRecorder: AudioRecorder;
+  connected: boolean;
+  mode: TurnDetection;
+}) {
+  const [userActive, setUserActive] = useState(false);
+  const activeRef = useRef(false);
+  // The chunk before speech was detected, so the first syllable isn't lost
+  const preRollRef = useRef<string | null>(null);
+
+  const sendAudio = useCallback(
+    (base64: string) => {
+      client.sendRealtimeInput([
+        {
+          mimeType: 'audio/pcm;rate=16000',
+          data: base64,
+        },
+      ]);
+    },
+    [client]
+  );
+
+  const startActivity = useCallback(() => {
+    if (activeRef.current || client.status !== 'connected') return;
+    activeRef.current = true;
+    setUserActive(true);
+    client.sendActivityStart();
+    if (preRollRef.current) {
+      sendAudio(preRollRef.current);
+      preRollRef.current = null;
+    }
+  }, [client, sendAudio]);
+
+  const endActivity = useCallback(() => {
+    if (!activeRef.current) return;
+    activeRef.current = false;
+    setUserActive(false);
+    client.sendActivityEnd();
+  }, [client]);
+
+  // End any activity when the mode changes or the session ends
+  useEffect(() => {
+    if (!connected) {
+      activeRef.current = false;
+      setUserActive(false);
+    }
+    return () => endActivity();
+  }, [connected, mode, endActivity]);
+
+  // In-browser voice activity detection
+  useEffect(() => {
+    if (mode !== 'client' || !connected) return;
+    const onSpeech = (speaking: boolean) =>
+      speaking ? startActivity() : endActivity();
+    audioRecorder.on('speech', onSpeech);
+    return () => {
+      audioRecorder.off('speech', onSpeech);
+    };
+  }, [mode, connected, audioRecorder, startActivity, endActivity]);
+
+  // Push-to-talk
+  useEffect(() => {
+    if (mode !== 'push-to-talk' || !connected) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== PUSH_TO_TALK_KEY || e.repeat || isTyping(e.target)) return;
+      e.preventDefault();
+      startActivity();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.key !== PUSH_TO_TALK_KEY) return;
+      endActivity();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', endActivity);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', endActivity);
+    };
+  }, [mode, connected, startActivity, endActivity]);
+
+  /**
+   * Sends a chunk of microphone audio if the current mode lets it through.
+   */
+  const onAudioData = useCallback(
+    (base64: string) => {
+      if (mode === 'server' || activeRef.current) {
+        sendAudio(base64);
+      } else {
+        preRollRef.current = base64;
+      }
+    },
+    [mode, sendAudio]
+  );
+
+  return { onAudioData, userActive };
+}
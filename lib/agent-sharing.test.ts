@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import {
+  AGENT_FILE_VERSION,
+  AgentFileError,
+  createShareLink,
+  isShareHash,
+  parseAgentFile,
+  parseShareHash,
+  serializeAgents,
+} from './agent-sharing';
+import { Agent, Paul } from './presets/agents';
+
+const FULL_AGENT: Agent = {
+  ...Paul,
+  volume: 0.5,
+  avatar: { renderer: 'pixel', options: { resolution: 16 } },
+  appearance: {
+    eyeSpacing: 1,
+    eyeSize: 1.5,
+    mouthWidth: 0.8,
+    accessories: ['hat', 'glasses'],
+    background: 'hexagon',
+  },
+  profile: {
+    role: 'Etiquette expert',
+    speakingStyle: 'Exasperated',
+    wordLimit: 30,
+    catchphrases: ['Good heavens!'],
+    topicsToAvoid: [],
+    knowledgeDomains: ['Manners'],
+    examples: [{ user: 'Hi', agent: 'Good day to you.' }],
+  },
+  promptTemplate: 'You are {{agent_name}}.',
+  language: 'de-DE',
+};
+
+function parseAgent(agent: Record<string, unknown>) {
+  return parseAgentFile({ version: AGENT_FILE_VERSION, agents: [agent] });
+}
+
+describe('parseAgentFile', () => {
+  it('reads back serialized agents', () => {
+    const data = JSON.parse(serializeAgents([Paul, FULL_AGENT]));
+    expect(parseAgentFile(data)).toEqual([Paul, FULL_AGENT]);
+  });
+
+  it('leaves out unknown fields', () => {
+    expect(parseAgent({ ...Paul, secret: 'value' })).toEqual([Paul]);
+  });
+
+  it('rejects data that is not an agent file', () => {
+    expect(() => parseAgentFile(null)).toThrow(
+      new AgentFileError('Not a ChatterBots agent file.')
+    );
+    expect(() => parseAgentFile({ agents: [Paul] })).toThrow(
+      'Not a ChatterBots agent file.'
+    );
+    expect(() => parseAgentFile({ version: 2 })).toThrow(
+      'The file does not contain any agents.'
+    );
+  });
+
+  it('rejects files from newer versions', () => {
+    expect(() =>
+      parseAgentFile({ version: AGENT_FILE_VERSION + 1, agents: [Paul] })
+    ).toThrow(
+      `Agent file version ${AGENT_FILE_VERSION + 1} is newer than this app ` +
+        'supports.'
+    );
+  });
+
+  it('reports which agent is invalid and why', () => {
+    const { name, ...nameless } = Paul;
+    expect(() =>
+      parseAgentFile({ version: AGENT_FILE_VERSION, agents: [Paul, nameless] })
+    ).toThrow('Agent 2 is invalid: missing name');
+    expect(() => parseAgent({ ...Paul, id: '' })).toThrow(
+      'Agent 1 is invalid: missing id'
+    );
+    expect(() => parseAgent({ ...Paul, voice: 'Nobody' })).toThrow(
+      'Agent 1 is invalid: unknown voice "Nobody"'
+    );
+    expect(() => parseAgent({ ...Paul, tools: [1] })).toThrow(
+      'tools must be a list of names'
+    );
+    expect(() => parseAgent({ ...Paul, volume: 2 })).toThrow(
+      'volume must be between 0 and 1'
+    );
+    expect(() => parseAgent({ ...Paul, avatar: { options: {} } })).toThrow(
+      'avatar must name a renderer'
+    );
+    expect(() =>
+      parseAgent({
+        ...FULL_AGENT,
+        appearance: { ...FULL_AGENT.appearance, eyeSize: 5 },
+      })
+    ).toThrow('appearance is invalid');
+    expect(() =>
+      parseAgent({
+        ...FULL_AGENT,
+        profile: { ...FULL_AGENT.profile, wordLimit: 1.5 },
+      })
+    ).toThrow('personality profile is invalid');
+    expect(() => parseAgent({ ...Paul, language: 'xx-XX' })).toThrow(
+      'Agent 1 is invalid: unknown language "xx-XX"'
+    );
+  });
+
+  it('migrates version 1 agents', () => {
+    // Fields that version 1 did not have are dropped rather than validated
+    const agents = parseAgentFile({
+      version: 1,
+      agents: [{ ...Paul, volume: 'loud', language: 'en-US' }],
+    });
+    expect(agents).toEqual([Paul]);
+  });
+
+  it('leaves invalid version 1 agents to validation', () => {
+    expect(() => parseAgentFile({ version: 1, agents: ['Paul'] })).toThrow(
+      'Agent 1 is invalid: not an object'
+    );
+  });
+});
+
+describe('share links', () => {
+  it('carries the agent in the URL hash', () => {
+    const { volume, ...shared } = FULL_AGENT;
+    const { hash } = new URL(createShareLink(FULL_AGENT));
+    expect(isShareHash(hash)).toBe(true);
+    expect(parseShareHash(hash)).toEqual(shared);
+  });
+
+  it('leaves out optional fields the agent does not have', () => {
+    const { hash } = new URL(createShareLink(Paul));
+    expect(parseShareHash(hash)).toEqual(Paul);
+    const { tools, ...toolless } = Paul;
+    const { hash: shorter } = new URL(createShareLink(toolless));
+    expect(shorter.length).toBeLessThan(hash.length);
+    expect(parseShareHash(shorter)).toEqual(toolless);
+  });
+
+  it('ignores other hashes', () => {
+    expect(isShareHash('#settings')).toBe(false);
+    expect(parseShareHash('#settings')).toBeNull();
+  });
+
+  it('rejects damaged links', () => {
+    expect(() => parseShareHash('#agent=%%%')).toThrow(
+      new AgentFileError('The share link is damaged.')
+    );
+    const notAList = btoa(JSON.stringify({ name: 'Paul' }));
+    expect(() => parseShareHash(`#agent=${notAList}`)).toThrow(
+      'The share link does not contain an agent.'
+    );
+  });
+});
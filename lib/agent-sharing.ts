@@ -0,0 +1,316 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  ACCESSORIES,
+  Agent,
+  AgentAppearance,
+  AgentAvatar,
+  AgentLanguage,
+  BACKGROUND_SHAPES,
+  INTERLOCUTOR_VOICES,
+  LANGUAGES,
+  PersonalityProfile,
+} from './presets/agents';
+
+/**
+ * Version of the agent file format. Bump it and add a migration to
+ * `AGENT_FILE_MIGRATIONS` whenever the shape of `Agent` changes.
+ */
+export const AGENT_FILE_VERSION = 2;
+
+export type AgentFile = {
+  version: number;
+  agents: Agent[];
+};
+
+const SHARE_HASH_PREFIX = '#agent=';
+
+export class AgentFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AgentFileError';
+  }
+}
+
+// An agent as stored in a file, before it is validated
+type AgentData = Record<string, unknown>;
+
+/**
+ * Upgrades the agents of a file from the previous version to the version
+ * they are keyed by, e.g. `AGENT_FILE_MIGRATIONS[2]` turns v1 agents into v2
+ * agents.
+ */
+const AGENT_FILE_MIGRATIONS: Record<number, (agent: AgentData) => AgentData> =
+  {
+    // Version 2 added the personality profile, prompt template, language,
+    // avatar, appearance and volume, all optional
+    2: ({ id, name, personality, bodyColor, voice, tools }) => ({
+      id,
+      name,
+      personality,
+      bodyColor,
+      voice,
+      tools,
+    }),
+  };
+
+function isRecord(value: unknown): value is AgentData {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isOneOf<T>(list: readonly T[], value: unknown): value is T {
+  return (list as readonly unknown[]).includes(value);
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isTextList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isText);
+}
+
+// Checks a field that may be left out
+function isOptional<T>(
+  guard: (value: unknown) => value is T,
+  value: unknown
+): value is T | undefined {
+  return value === undefined || guard(value);
+}
+
+function migrateAgentFile(version: number, agents: unknown[]): unknown[] {
+  if (version > AGENT_FILE_VERSION) {
+    throw new AgentFileError(
+      `Agent file version ${version} is newer than this app supports.`
+    );
+  }
+  for (let v = version + 1; v <= AGENT_FILE_VERSION; v++) {
+    const migrate = AGENT_FILE_MIGRATIONS[v];
+    if (migrate) {
+      // Invalid agents are left for validation to report
+      agents = agents.map(agent => (isRecord(agent) ? migrate(agent) : agent));
+    }
+  }
+  return agents;
+}
+
+function isVolume(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+function isLanguage(value: unknown): value is AgentLanguage {
+  return LANGUAGES.some(({ code }) => code === value);
+}
+
+function isAvatar(value: unknown): value is AgentAvatar {
+  return (
+    isRecord(value) &&
+    isText(value.renderer) &&
+    (value.options === undefined ||
+      (isRecord(value.options) &&
+        Object.values(value.options).every(
+          option => typeof option === 'string' || typeof option === 'number'
+        )))
+  );
+}
+
+function isAppearance(value: unknown): value is AgentAppearance {
+  const isScale = (scale: unknown) =>
+    typeof scale === 'number' && scale >= 0.5 && scale <= 2;
+  return (
+    isRecord(value) &&
+    isScale(value.eyeSpacing) &&
+    isScale(value.eyeSize) &&
+    isScale(value.mouthWidth) &&
+    Array.isArray(value.accessories) &&
+    value.accessories.every(accessory => isOneOf(ACCESSORIES, accessory)) &&
+    isOneOf(BACKGROUND_SHAPES, value.background)
+  );
+}
+
+function isProfile(value: unknown): value is PersonalityProfile {
+  return (
+    isRecord(value) &&
+    isText(value.role) &&
+    isText(value.speakingStyle) &&
+    typeof value.wordLimit === 'number' &&
+    Number.isInteger(value.wordLimit) &&
+    value.wordLimit >= 0 &&
+    isTextList(value.catchphrases) &&
+    isTextList(value.topicsToAvoid) &&
+    isTextList(value.knowledgeDomains) &&
+    Array.isArray(value.examples) &&
+    value.examples.every(
+      example =>
+        isRecord(example) && isText(example.user) && isText(example.agent)
+    )
+  );
+}
+
+function validateAgent(value: unknown, index: number): Agent {
+  function fail(reason: string): never {
+    throw new AgentFileError(`Agent ${index + 1} is invalid: ${reason}`);
+  }
+
+  if (!isRecord(value)) fail('not an object');
+  const { id, name, personality, bodyColor, voice, tools, volume } = value;
+  const { avatar, appearance, profile, promptTemplate, language } = value;
+  if (!isText(id) || !id) fail('missing id');
+  if (!isText(name)) fail('missing name');
+  if (!isText(personality)) fail('missing personality');
+  if (!isText(bodyColor)) fail('missing bodyColor');
+  if (!isOneOf(INTERLOCUTOR_VOICES, voice)) fail(`unknown voice "${voice}"`);
+  if (!isOptional(isTextList, tools)) fail('tools must be a list of names');
+  if (!isOptional(isVolume, volume)) fail('volume must be between 0 and 1');
+  if (!isOptional(isAvatar, avatar)) fail('avatar must name a renderer');
+  if (!isOptional(isAppearance, appearance)) fail('appearance is invalid');
+  if (!isOptional(isProfile, profile)) fail('personality profile is invalid');
+  if (!isOptional(isText, promptTemplate)) fail('promptTemplate must be text');
+  if (!isOptional(isLanguage, language)) {
+    fail(`unknown language "${language}"`);
+  }
+
+  return {
+    id,
+    name,
+    personality,
+    bodyColor,
+    voice,
+    ...(tools && { tools: [...tools] }),
+    ...(volume !== undefined && { volume }),
+    ...(avatar && {
+      avatar: {
+        renderer: avatar.renderer,
+        ...(avatar.options && { options: { ...avatar.options } }),
+      },
+    }),
+    ...(appearance && {
+      appearance: {
+        ...appearance,
+        accessories: [...appearance.accessories],
+      },
+    }),
+    ...(profile && {
+      profile: {
+        role: profile.role,
+        speakingStyle: profile.speakingStyle,
+        wordLimit: profile.wordLimit,
+        catchphrases: [...profile.catchphrases],
+        topicsToAvoid: [...profile.topicsToAvoid],
+        knowledgeDomains: [...profile.knowledgeDomains],
+        examples: profile.examples.map(({ user, agent }) => ({ user, agent })),
+      },
+    }),
+    ...(promptTemplate && { promptTemplate }),
+    ...(language && { language }),
+  };
+}
+
+/**
+ * Validates a parsed agent file and returns its agents.
+ * Throws an `AgentFileError` describing the first problem found.
+ */
+export function parseAgentFile(data: unknown): Agent[] {
+  if (!isRecord(data) || typeof data.version !== 'number') {
+    throw new AgentFileError('Not a ChatterBots agent file.');
+  }
+  if (!Array.isArray(data.agents)) {
+    throw new AgentFileError('The file does not contain any agents.');
+  }
+  return migrateAgentFile(data.version, data.agents).map(validateAgent);
+}
+
+export function serializeAgents(agents: Agent[]): string {
+  const file: AgentFile = { version: AGENT_FILE_VERSION, agents };
+  return JSON.stringify(file, null, 2);
+}
+
+function toBase64Url(text: string) {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string) {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Creates a link to the app that carries the agent in the URL hash.
+ */
+export function createShareLink(agent: Agent): string {
+  // A positional tuple keeps the link short
+  const { id, name, personality, bodyColor, voice } = agent;
+  const { tools, avatar, appearance, profile, promptTemplate, language } =
+    agent;
+  const payload = [
+    AGENT_FILE_VERSION,
+    id,
+    name,
+    personality,
+    bodyColor,
+    voice,
+    tools?.length ? tools : null,
+    avatar || null,
+    appearance || null,
+    profile || null,
+    promptTemplate || null,
+    language || null,
+  ];
+  // Optional fields at the end are left out
+  while (payload[payload.length - 1] === null) {
+    payload.pop();
+  }
+  const url = new URL(window.location.href);
+  url.hash = SHARE_HASH_PREFIX + toBase64Url(JSON.stringify(payload));
+  return url.toString();
+}
+
+export function isShareHash(hash: string): boolean {
+  return hash.startsWith(SHARE_HASH_PREFIX);
+}
+
+/**
+ * Reads a shared agent from a URL hash, returning null if there is none.
+ */
+export function parseShareHash(hash: string): Agent | null {
+  if (!isShareHash(hash)) {
+    return null;
+  }
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(hash.slice(SHARE_HASH_PREFIX.length)));
+  } catch {
+    throw new AgentFileError('The share link is damaged.');
+  }
+  if (!Array.isArray(payload)) {
+    throw new AgentFileError('The share link does not contain an agent.');
+  }
+  const [version, id, name, personality, bodyColor, voice, ...optional] =
+    payload;
+  const [tools, avatar, appearance, profile, promptTemplate, language] =
+    optional.map((value: unknown) => (value === null ? undefined : value));
+  return parseAgentFile({
+    version,
+    agents: [
+      {
+        id,
+        name,
+        personality,
+        bodyColor,
+        voice,
+        tools,
+        avatar,
+        appearance,
+        profile,
+        promptTemplate,
+        language,
+      },
+    ],
+  })[0];
+}
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Called on every animation frame with the time and the time since the last
+ * frame, both in seconds.
+ */
+export type FrameCallback = (time: number, delta: number) => void;
+
+// Longest step reported after a slow frame, so animations never jump
+const MAX_DELTA = 0.1;
+
+/**
+ * Drives every animation from a single `requestAnimationFrame` loop, which
+ * only runs while something is subscribed and the tab is visible.
+ */
+export class AnimationClock {
+  private callbacks: Set<FrameCallback> = new Set();
+  private frameId: number = -1;
+  private lastTime: number | null = null;
+
+  constructor() {
+    this.tick = this.tick.bind(this);
+    document.addEventListener('visibilitychange', () => this.update());
+  }
+
+  /**
+   * @returns A function that unsubscribes the callback
+   */
+  subscribe(callback: FrameCallback): () => void {
+    this.callbacks.add(callback);
+    this.update();
+    return () => {
+      this.callbacks.delete(callback);
+      this.update();
+    };
+  }
+
+  get running() {
+    return this.frameId !== -1;
+  }
+
+  private update() {
+    const shouldRun = this.callbacks.size > 0 && !document.hidden;
+    if (shouldRun && !this.running) {
+      // Resume without counting the time spent paused
+      this.lastTime = null;
+      this.frameId = window.requestAnimationFrame(this.tick);
+    } else if (!shouldRun && this.running) {
+      window.cancelAnimationFrame(this.frameId);
+      this.frameId = -1;
+    }
+  }
+
+  private tick(now: number) {
+    const time = now / 1000;
+    const delta =
+      this.lastTime === null ? 0 : Math.min(time - this.lastTime, MAX_DELTA);
+    this.lastTime = time;
+    this.frameId = window.requestAnimationFrame(this.tick);
+    this.callbacks.forEach(callback => {
+      try {
+        callback(time, delta);
+      } catch (error) {
+        console.error('Error in animation frame:', error);
+      }
+    });
+  }
+}
+
+export const animationClock = new AnimationClock();
@@ -21,6 +21,7 @@
 import { audioContext } from './utils';
 import AudioRecordingWorklet from './worklets/audio-processing';
 import VolMeterWorket from './worklets/vol-meter';
+import VADWorklet from './worklets/vad';
 
 import { createWorketFromSrc } from './audioworklet-registry';
 import EventEmitter from 'eventemitter3';
@@ -35,10 +36,26 @@ function arrayBufferToBase64(buffer: ArrayBuffer) {
   return window.btoa(binary);
 }
 
+/**
+ * Microphone choice and the browser's built-in voice processing.
+ */
+export type AudioInputOptions = {
+  // Leave unset to use the system default microphone
+  deviceId?: string;
+  echoCancellation?: boolean;
+  noiseSuppression?: boolean;
+  autoGainControl?: boolean;
+};
+
 // FIX: Define event types for AudioRecorder for strong typing.
 type AudioRecorderEvents = {
   data: (base64: string) => void;
+  pcm16: (data: ArrayBuffer) => void;
   volume: (volume: number) => void;
+  // Emitted when the voice activity detector hears speech start or stop
+  speech: (speaking: boolean) => void;
+  // Emitted when the microphone could not be switched while recording
+  error: (error: Error) => void;
 };
 
 // FIX: Switched from inheritance to composition for EventEmitter to fix type resolution issues.
@@ -49,8 +66,12 @@ export class AudioRecorder {
   recording: boolean = false;
   recordingWorklet: AudioWorkletNode | undefined;
   vuWorklet: AudioWorkletNode | undefined;
+  vadWorklet: AudioWorkletNode | undefined;
+  inputOptions: AudioInputOptions = {};
 
   private starting: Promise<void> | null = null;
+  // Bumped on every stream switch and stop, so late streams are discarded
+  private generation = 0;
   private emitter = new EventEmitter<AudioRecorderEvents>();
 
   constructor(public sampleRate = 16000) {}
@@ -102,7 +123,7 @@ export class AudioRecorder {
 
     this.starting = new Promise(async (resolve, reject) => {
       try {
-        this.stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        this.stream = await this.getStream(this.inputOptions);
         this.audioContext = await audioContext({ sampleRate: this.sampleRate });
         this.source = this.audioContext.createMediaStreamSource(this.stream);
 
@@ -122,6 +143,7 @@ export class AudioRecorder {
           if (arrayBuffer) {
             const arrayBufferString = arrayBufferToBase64(arrayBuffer);
             this.emit('data', arrayBufferString);
+            this.emit('pcm16', arrayBuffer);
           }
         };
         this.source.connect(this.recordingWorklet);
@@ -137,6 +159,21 @@ export class AudioRecorder {
         };
 
         this.source.connect(this.vuWorklet);
+
+        // voice activity detection worklet
+        const vadWorkletName = 'vad';
+        await this.audioContext.audioWorklet.addModule(
+          createWorketFromSrc(vadWorkletName, VADWorklet)
+        );
+        this.vadWorklet = new AudioWorkletNode(
+          this.audioContext,
+          vadWorkletName
+        );
+        this.vadWorklet.port.onmessage = (ev: MessageEvent) => {
+          this.emit('speech', ev.data.speaking);
+        };
+
+        this.source.connect(this.vadWorklet);
         this.recording = true;
         resolve();
       } catch (err) {
@@ -149,7 +186,83 @@ export class AudioRecorder {
     return this.starting;
   }
 
+  private async getStream({
+    deviceId,
+    ...processing
+  }: AudioInputOptions): Promise<MediaStream> {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: {
+          ...processing,
+          ...(deviceId && { deviceId: { exact: deviceId } }),
+        },
+      });
+    } catch (error) {
+      // The chosen microphone is gone, use the default one instead
+      if (deviceId && (error as Error).name === 'OverconstrainedError') {
+        return this.getStream(processing);
+      }
+      throw error;
+    }
+    // Fall back to the default microphone when the device is unplugged
+    stream.getAudioTracks().forEach(track => {
+      track.addEventListener('ended', () => {
+        if (this.recording && this.stream === stream && deviceId) {
+          this.replaceStream({
+            ...this.inputOptions,
+            deviceId: undefined,
+          }).catch(error => this.emit('error', error));
+        }
+      });
+    });
+    return stream;
+  }
+
+  /**
+   * Swaps the microphone stream feeding the worklets, leaving the rest of
+   * the graph (and whoever listens to it) untouched.
+   */
+  private async replaceStream(options: AudioInputOptions) {
+    if (!this.audioContext || !this.recordingWorklet || !this.vuWorklet) {
+      return;
+    }
+    const generation = ++this.generation;
+    const stream = await this.getStream(options);
+    if (generation !== this.generation || !this.recording) {
+      // Stopped or switched again while the stream was being opened
+      stream.getTracks().forEach(track => track.stop());
+      return;
+    }
+    const source = this.audioContext.createMediaStreamSource(stream);
+    source.connect(this.recordingWorklet);
+    source.connect(this.vuWorklet);
+    if (this.vadWorklet) {
+      source.connect(this.vadWorklet);
+    }
+
+    this.source?.disconnect();
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.source = source;
+    this.stream = stream;
+  }
+
+  /**
+   * Applies new input options, switching the live microphone stream if
+   * recording is in progress.
+   */
+  async setInputOptions(options: AudioInputOptions) {
+    this.inputOptions = options;
+    if (this.starting) {
+      await this.starting;
+    }
+    if (this.recording) {
+      await this.replaceStream(options);
+    }
+  }
+
   stop() {
+    this.generation++;
     // It is plausible that stop would be called before start completes,
     // such as if the Websocket immediately hangs up
     const handleStop = () => {
@@ -157,8 +270,10 @@ export class AudioRecorder {
         this.source?.disconnect();
         this.stream?.getTracks().forEach(track => track.stop());
         this.stream = undefined;
+        this.recording = false;
         this.recordingWorklet = undefined;
         this.vuWorklet = undefined;
+        this.vadWorklet = undefined;
       } catch (error) {
         console.error('Error stopping audio recorder:', error);
       }
@@ -18,34 +18,156 @@
  * limitations under the License.
  */
 
-import {
-  createWorketFromSrc,
-  registeredWorklets,
-} from './audioworklet-registry';
+import { createWorketFromSrc, WorkletGraph } from './audioworklet-registry';
+import PlaybackWorklet from './worklets/playback';
+
+// `AudioContext.setSinkId` is not in TypeScript's DOM typings yet
+type AudioContextWithSinkId = AudioContext & {
+  setSinkId?: (sinkId: string) => Promise<void>;
+};
+
+// Seconds the output fades out for when playback is interrupted
+export const DEFAULT_FADE_OUT_TIME = 0.1;
+
+/**
+ * How much of the current response had been heard when playback stopped.
+ * Both values are in seconds.
+ */
+export type PlaybackProgress = {
+  played: number;
+  // Everything received for the response so far, played or not
+  total: number;
+};
+
+/**
+ * Jitter buffer state reported by the playback worklet. Times are in seconds.
+ */
+export type PlaybackMetrics = {
+  // Times the buffer ran dry in the middle of a response
+  underruns: number;
+  // Times audio arrived faster than the buffer could hold it
+  overruns: number;
+  buffered: number;
+  // Level the buffer fills to before playback starts, adapted to the network
+  target: number;
+};
+
+type PlaybackStatus = PlaybackMetrics & {
+  generation: number;
+  playing: boolean;
+  // Context time the status was taken at
+  time: number;
+  played: number;
+};
+
+// Worklet modules that are loaded, by context and processor name. Several
+// streamers may share a context, but a processor can only be registered once.
+const loadedModules: WeakMap<
+  BaseAudioContext,
+  Map<string, Promise<void>>
+> = new WeakMap();
+
+function loadModule(context: BaseAudioContext, name: string, src: string) {
+  let modules = loadedModules.get(context);
+  if (!modules) {
+    modules = new Map();
+    loadedModules.set(context, modules);
+  }
+  let loaded = modules.get(name);
+  if (!loaded) {
+    loaded = context.audioWorklet.addModule(createWorketFromSrc(name, src));
+    modules.set(name, loaded);
+  }
+  return loaded;
+}
 
 export class AudioStreamer {
   private sampleRate: number = 24000;
-  private bufferSize: number = 7680;
-  // A queue of audio buffers to be played. Each buffer is a Float32Array.
-  private audioQueue: Float32Array[] = [];
-  private isPlaying: boolean = false;
-  // Indicates if the stream has finished playing, e.g., interrupted.
-  private isStreamComplete: boolean = false;
-  private checkInterval: number | null = null;
+  // Audio received before the playback worklet was ready
+  private pending: Float32Array[] = [];
+  private playbackNode: AudioWorkletNode | null = null;
+  private status: PlaybackStatus | null = null;
+  // Bumped on every stop, so late reports about a flushed response are ignored
+  private generation: number = 0;
+  // Seconds received for the current response
+  private received: number = 0;
+  private lastWriteTime: number = 0;
+  // Analysis worklets tapping this streamer's mix, by name
+  private worklets: Record<string, WorkletGraph> = {};
+  private disposed = false;
+  // Estimated context time at which the audio received so far ends
   private scheduledTime: number = 0;
-  private initialBufferTime: number = 0.1; //0.1 // 100ms initial buffer
-  // Web Audio API nodes. source => gain => destination
+  // Web Audio API nodes. playback => mix => gain => volume => destination.
+  // Analysis worklets tap the mix and never reach the destination.
+  public mixNode: GainNode;
   public gainNode: GainNode;
-  public source: AudioBufferSourceNode;
-  private endOfQueueAudioSource: AudioBufferSourceNode | null = null;
+  // Output volume, kept across interruptions unlike `gainNode`
+  public volumeNode: GainNode;
+  public fadeOutTime: number = DEFAULT_FADE_OUT_TIME;
+  public metrics: PlaybackMetrics = {
+    underruns: 0,
+    overruns: 0,
+    buffered: 0,
+    target: 0,
+  };
 
+  // Called once a response has finished playing
   public onComplete = () => {};
+  // Called for every chunk with its estimated start time on the context's
+  // clock
+  public onSchedule = (
+    samples: Float32Array,
+    sampleRate: number,
+    startTime: number
+  ) => {};
 
   constructor(public context: AudioContext) {
+    this.mixNode = this.context.createGain();
     this.gainNode = this.context.createGain();
-    this.source = this.context.createBufferSource();
-    this.gainNode.connect(this.context.destination);
+    this.volumeNode = this.context.createGain();
+    this.mixNode.connect(this.gainNode);
+    this.gainNode.connect(this.volumeNode);
+    this.volumeNode.connect(this.context.destination);
     this.addPCM16 = this.addPCM16.bind(this);
+    this.createPlaybackNode().catch(error => {
+      console.error('Error creating the playback worklet:', error);
+    });
+  }
+
+  private async createPlaybackNode() {
+    await loadModule(this.context, 'audio-playback', PlaybackWorklet);
+    if (this.disposed) return;
+
+    const node = new AudioWorkletNode(this.context, 'audio-playback', {
+      numberOfInputs: 0,
+      outputChannelCount: [1],
+      processorOptions: { inputSampleRate: this.sampleRate },
+    });
+    node.port.onmessage = (ev: MessageEvent) => this.onPlaybackMessage(ev);
+    node.connect(this.mixNode);
+    this.playbackNode = node;
+
+    this.pending.forEach(samples => this.write(samples));
+    this.pending = [];
+  }
+
+  private onPlaybackMessage(ev: MessageEvent) {
+    const { data } = ev;
+    if (data.type === 'status') {
+      if (data.generation !== this.generation) return;
+      this.status = data;
+      const { underruns, overruns, buffered, target } = data;
+      this.metrics = { underruns, overruns, buffered, target };
+    } else if (data.type === 'ended') {
+      // Audio sent while the message was on its way starts the next response
+      if (this.context.currentTime - this.lastWriteTime < 0.5) {
+        return;
+      }
+      this.received = 0;
+      this.status = null;
+      this.scheduledTime = 0;
+      this.onComplete();
+    }
   }
 
   async addWorklet<T extends (d: any) => void>(
@@ -53,33 +175,68 @@ export class AudioStreamer {
     workletSrc: string,
     handler: T
   ): Promise<this> {
-    let workletsRecord = registeredWorklets.get(this.context);
-    if (workletsRecord && workletsRecord[workletName]) {
-      // the worklet already exists on this context
-      // add the new handler to it
-      workletsRecord[workletName].handlers.push(handler);
-      return Promise.resolve(this);
-      //throw new Error(`Worklet ${workletName} already exists on context`);
-    }
-
-    if (!workletsRecord) {
-      registeredWorklets.set(this.context, {});
-      workletsRecord = registeredWorklets.get(this.context)!;
+    const existing = this.worklets[workletName];
+    if (existing) {
+      // the worklet already taps this streamer, add the new handler to it
+      existing.handlers.push(handler);
+      return this;
     }
 
     // create new record to fill in as becomes available
-    workletsRecord[workletName] = { handlers: [handler] };
+    const graph: WorkletGraph = { handlers: [handler] };
+    this.worklets[workletName] = graph;
 
-    const src = createWorketFromSrc(workletName, workletSrc);
-    await this.context.audioWorklet.addModule(src);
-    const worklet = new AudioWorkletNode(this.context, workletName);
+    await loadModule(this.context, workletName, workletSrc);
+    if (this.worklets[workletName] !== graph) {
+      // removed while the module was loading
+      return this;
+    }
+    // Without outputs the tap is rendered but cannot be heard
+    const worklet = new AudioWorkletNode(this.context, workletName, {
+      numberOfOutputs: 0,
+    });
 
     //add the node into the map
-    workletsRecord[workletName].node = worklet;
+    graph.node = worklet;
+    worklet.port.onmessage = function (ev: MessageEvent) {
+      graph.handlers.forEach(handler => {
+        handler.call(worklet.port, ev);
+      });
+    };
+    this.mixNode.connect(worklet);
 
     return this;
   }
 
+  /**
+   * Removes a handler from an analysis worklet, or every handler when none is
+   * given. The worklet is disconnected once it has no handlers left.
+   */
+  removeWorklet<T extends (d: any) => void>(
+    workletName: string,
+    handler?: T
+  ): this {
+    const graph = this.worklets[workletName];
+    if (!graph) {
+      return this;
+    }
+
+    graph.handlers = handler
+      ? graph.handlers.filter(h => h !== handler)
+      : [];
+    if (graph.handlers.length) {
+      return this;
+    }
+
+    delete this.worklets[workletName];
+    if (graph.node) {
+      this.mixNode.disconnect(graph.node);
+      graph.node.port.onmessage = null;
+      graph.node.port.close();
+    }
+    return this;
+  }
+
   /**
    * Converts a Uint8Array of PCM16 audio data into a Float32Array.
    * PCM16 is a common raw audio format, but the Web Audio API generally
@@ -104,167 +261,120 @@ export class AudioStreamer {
   }
 
   addPCM16(chunk: Uint8Array) {
-    // Reset the stream complete flag when a new chunk is added.
-    this.isStreamComplete = false;
-    // Process the chunk into a Float32Array
-    let processingBuffer = this._processPCM16Chunk(chunk);
-    // Add the processed buffer to the queue if it's larger than the buffer size.
-    // This is to ensure that the buffer is not too large.
-    while (processingBuffer.length >= this.bufferSize) {
-      const buffer = processingBuffer.slice(0, this.bufferSize);
-      this.audioQueue.push(buffer);
-      processingBuffer = processingBuffer.slice(this.bufferSize);
-    }
-    // Add the remaining buffer to the queue if it's not empty.
-    if (processingBuffer.length > 0) {
-      this.audioQueue.push(processingBuffer);
-    }
-    // Start playing if not already playing.
-    if (!this.isPlaying) {
-      this.isPlaying = true;
-      // Initialize scheduledTime only when we start playing
-      this.scheduledTime = this.context.currentTime + this.initialBufferTime;
-      this.scheduleNextBuffer();
-    }
-  }
+    const samples = this._processPCM16Chunk(chunk);
+    const duration = samples.length / this.sampleRate;
+    const now = this.context.currentTime;
 
-  private createAudioBuffer(audioData: Float32Array): AudioBuffer {
-    const audioBuffer = this.context.createBuffer(
-      1,
-      audioData.length,
-      this.sampleRate
+    // Playback starts once the jitter buffer has filled up
+    const startTime = Math.max(
+      this.scheduledTime,
+      now + (this.metrics.target || 0.1)
     );
-    audioBuffer.getChannelData(0).set(audioData);
-    return audioBuffer;
-  }
-
-  private scheduleNextBuffer() {
-    const SCHEDULE_AHEAD_TIME = 0.2;
+    this.scheduledTime = startTime + duration;
+    this.received += duration;
+    this.lastWriteTime = now;
+    this.onSchedule(samples, this.sampleRate, startTime);
 
-    while (
-      this.audioQueue.length > 0 &&
-      this.scheduledTime < this.context.currentTime + SCHEDULE_AHEAD_TIME
-    ) {
-      try {
-        const audioData = this.audioQueue.shift()!;
-        const audioBuffer = this.createAudioBuffer(audioData);
-        const source = this.context.createBufferSource();
-
-        if (this.audioQueue.length === 0) {
-          if (this.endOfQueueAudioSource) {
-            this.endOfQueueAudioSource.onended = null;
-          }
-          this.endOfQueueAudioSource = source;
-          source.onended = () => {
-            if (
-              !this.audioQueue.length &&
-              this.endOfQueueAudioSource === source
-            ) {
-              this.endOfQueueAudioSource = null;
-              this.onComplete();
-            }
-          };
-        }
-
-        source.buffer = audioBuffer;
-        source.connect(this.gainNode);
-
-        const worklets = registeredWorklets.get(this.context);
-
-        if (worklets) {
-          Object.entries(worklets).forEach(([workletName, graph]) => {
-            const { node, handlers } = graph;
-            if (node) {
-              source.connect(node);
-              node.port.onmessage = function (ev: MessageEvent) {
-                handlers.forEach(handler => {
-                  handler.call(node.port, ev);
-                });
-              };
-              node.connect(this.context.destination);
-            }
-          });
-        }
-        // Ensure we never schedule in the past
-        const startTime = Math.max(
-          this.scheduledTime,
-          this.context.currentTime
-        );
-        source.start(startTime);
-        this.scheduledTime = startTime + audioBuffer.duration;
-      } catch (error) {
-        console.error('Error scheduling audio buffer for playback:', error);
-      }
-    }
-
-    if (this.audioQueue.length === 0) {
-      if (this.isStreamComplete) {
-        this.isPlaying = false;
-        if (this.checkInterval) {
-          clearInterval(this.checkInterval);
-          this.checkInterval = null;
-        }
-      } else {
-        if (!this.checkInterval) {
-          this.checkInterval = window.setInterval(() => {
-            if (this.audioQueue.length > 0) {
-              this.scheduleNextBuffer();
-            }
-          }, 100) as unknown as number;
-        }
-      }
+    if (this.playbackNode) {
+      this.write(samples);
     } else {
-      const nextCheckTime =
-        (this.scheduledTime - this.context.currentTime) * 1000;
-      setTimeout(
-        () => this.scheduleNextBuffer(),
-        Math.max(0, nextCheckTime - 50)
-      );
+      this.pending.push(samples);
     }
   }
 
-  stop() {
-    this.isPlaying = false;
-    this.isStreamComplete = true;
-    this.audioQueue = [];
+  private write(samples: Float32Array) {
+    // Copied rather than transferred, `onSchedule` may keep the samples
+    this.playbackNode!.port.postMessage({ type: 'write', samples });
+  }
 
-    if (this.checkInterval) {
-      clearInterval(this.checkInterval);
-      this.checkInterval = null;
+  /**
+   * Measures how much of the current response has been played so far,
+   * including audio that is still buffered in the total.
+   */
+  getProgress(): PlaybackProgress {
+    let played = 0;
+    if (this.status) {
+      const { playing, time } = this.status;
+      // Account for the time since the worklet last reported
+      const elapsed = playing ? this.context.currentTime - time : 0;
+      played = Math.min(this.status.played + elapsed, this.received);
     }
+    return { played, total: this.received };
+  }
 
-    try {
-      if (this.context.state === 'running') {
-        this.scheduledTime = this.context.currentTime;
-        this.gainNode.gain.linearRampToValueAtTime(
-          0,
-          this.context.currentTime + 0.1,
-        );
-
-        setTimeout(() => {
-          this.gainNode.disconnect();
-          this.gainNode = this.context.createGain();
-          this.gainNode.connect(this.context.destination);
-        }, 200);
-      }
-    } catch (error) {
-      console.error('Error stopping audio streamer:', error);
-    }
+  /**
+   * Stops playback, fading out over `fadeOutTime` seconds.
+   * @returns How much of the interrupted response was played
+   */
+  stop(fadeOutTime = this.fadeOutTime): PlaybackProgress {
+    const progress = this.getProgress();
+    this.generation++;
+    this.pending = [];
+    this.status = null;
+    this.received = 0;
+    this.scheduledTime = 0;
+    this.playbackNode?.port.postMessage({
+      type: 'flush',
+      fadeTime: fadeOutTime,
+      generation: this.generation,
+    });
+    return progress;
   }
 
   async resume() {
     if (this.context.state === 'suspended') {
       await this.context.resume();
     }
-    this.isStreamComplete = false;
-    this.scheduledTime = this.context.currentTime + this.initialBufferTime;
     this.gainNode.gain.setValueAtTime(1, this.context.currentTime);
   }
 
+  /**
+   * Ramps the output volume, so muting silences the speaker without
+   * stopping the stream.
+   * @param volume - Between 0 (silent) and 1
+   * @param rampTime - Ramp duration in seconds
+   */
+  setVolume(volume: number, rampTime = 0.05) {
+    const { gain } = this.volumeNode;
+    const now = this.context.currentTime;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(gain.value, now);
+    gain.linearRampToValueAtTime(volume, now + rampTime);
+  }
+
+  /**
+   * Plays through the given output device, or the default one when empty.
+   * Resolves to false if the browser cannot choose the output device.
+   */
+  async setSinkId(deviceId: string): Promise<boolean> {
+    const context = this.context as AudioContextWithSinkId;
+    if (!context.setSinkId) {
+      return false;
+    }
+    await context.setSinkId(deviceId);
+    return true;
+  }
+
   complete() {
-    this.isStreamComplete = true;
     this.onComplete();
   }
+
+  /**
+   * Stops playback and disconnects every node of the streamer, for when its
+   * context outlives it.
+   */
+  dispose() {
+    this.disposed = true;
+    this.stop(0);
+    Object.keys(this.worklets).forEach(name => this.removeWorklet(name));
+    if (this.playbackNode) {
+      this.playbackNode.disconnect();
+      this.playbackNode.port.onmessage = null;
+      this.playbackNode.port.close();
+      this.playbackNode = null;
+    }
+    this.volumeNode.disconnect();
+  }
 }
 
 // // Usage example:
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LiveServerContent } from '@google/genai';
+import EventEmitter from 'eventemitter3';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  ConversationState,
+  ConversationStateMachine,
+} from './conversation-state';
+import { GenAILiveClient } from './genai-live-client';
+
+describe('ConversationStateMachine', () => {
+  let client: EventEmitter;
+  let machine: ConversationStateMachine;
+  let changes: ConversationState[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    client = new EventEmitter();
+    machine = new ConversationStateMachine(
+      client as unknown as GenAILiveClient
+    );
+    changes = [];
+    machine.on('change', state => changes.push(state));
+  });
+
+  afterEach(() => {
+    machine.dispose();
+    vi.useRealTimers();
+  });
+
+  // The user speaks and then stays silent
+  function speak() {
+    machine.setMicLevel(0.2);
+    machine.setMicLevel(0);
+  }
+
+  it('follows a whole exchange', () => {
+    speak();
+    expect(machine.state).toBe('user-speaking');
+    vi.advanceTimersByTime(800);
+    expect(machine.state).toBe('waiting');
+    client.emit('audio', new ArrayBuffer(2));
+    expect(machine.state).toBe('model-speaking');
+    client.emit('turncomplete');
+    // The model's last words are still playing
+    expect(machine.state).toBe('model-speaking');
+    machine.playbackEnded();
+    expect(changes).toEqual([
+      'user-speaking',
+      'waiting',
+      'model-speaking',
+      'idle',
+    ]);
+  });
+
+  it('waits for the turn to complete after playback ends', () => {
+    client.emit('audio', new ArrayBuffer(2));
+    machine.playbackEnded();
+    expect(machine.state).toBe('model-speaking');
+    client.emit('turncomplete');
+    expect(machine.state).toBe('idle');
+  });
+
+  it('keeps the user speaking through short pauses', () => {
+    speak();
+    vi.advanceTimersByTime(500);
+    speak();
+    vi.advanceTimersByTime(500);
+    expect(machine.state).toBe('user-speaking');
+    vi.advanceTimersByTime(300);
+    expect(machine.state).toBe('waiting');
+  });
+
+  it('ignores quiet microphone levels', () => {
+    machine.setMicLevel(0.01);
+    vi.advanceTimersByTime(1000);
+    expect(changes).toEqual([]);
+  });
+
+  it('gives up waiting for an answer', () => {
+    speak();
+    vi.advanceTimersByTime(800);
+    vi.advanceTimersByTime(9999);
+    expect(machine.state).toBe('waiting');
+    vi.advanceTimersByTime(1);
+    expect(machine.state).toBe('idle');
+  });
+
+  it('counts text replies as the model speaking', () => {
+    const thought: LiveServerContent = {
+      modelTurn: { parts: [{ text: 'Hmm', thought: true }] },
+    };
+    client.emit('content', thought);
+    expect(machine.state).toBe('idle');
+    const reply: LiveServerContent = { modelTurn: { parts: [{ text: 'Hi' }] } };
+    client.emit('content', reply);
+    expect(machine.state).toBe('model-speaking');
+    client.emit('turncomplete');
+    expect(machine.state).toBe('idle');
+  });
+
+  it('leaves interruptions to the server', () => {
+    client.emit('audio', new ArrayBuffer(2));
+    // The model's voice reaching the microphone
+    speak();
+    expect(machine.state).toBe('model-speaking');
+    client.emit('interrupted');
+    expect(machine.state).toBe('interrupted');
+  });
+
+  it('gives the user the floor after an interruption', () => {
+    client.emit('audio', new ArrayBuffer(2));
+    client.emit('interrupted');
+    machine.setMicLevel(0.2);
+    vi.advanceTimersByTime(800);
+    expect(machine.state).toBe('user-speaking');
+    machine.setMicLevel(0);
+    vi.advanceTimersByTime(800);
+    expect(machine.state).toBe('waiting');
+  });
+
+  it('waits for an answer after an interruption without speech', () => {
+    client.emit('audio', new ArrayBuffer(2));
+    client.emit('interrupted');
+    vi.advanceTimersByTime(799);
+    expect(machine.state).toBe('interrupted');
+    vi.advanceTimersByTime(1);
+    expect(machine.state).toBe('waiting');
+  });
+
+  it('resets when the session opens or closes', () => {
+    speak();
+    client.emit('close');
+    expect(machine.state).toBe('idle');
+    // The pending silence no longer moves on to waiting
+    vi.advanceTimersByTime(800);
+    expect(changes).toEqual(['user-speaking', 'idle']);
+    client.emit('audio', new ArrayBuffer(2));
+    client.emit('open');
+    expect(machine.state).toBe('idle');
+  });
+
+  it('stops listening to the client when disposed', () => {
+    machine.dispose();
+    client.emit('audio', new ArrayBuffer(2));
+    expect(machine.state).toBe('idle');
+    expect(client.listenerCount('audio')).toBe(0);
+  });
+});
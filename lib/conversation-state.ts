@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LiveServerContent } from '@google/genai';
+import EventEmitter from 'eventemitter3';
+import { GenAILiveClient } from './genai-live-client';
+
+/**
+ * Who has the floor in a live session.
+ */
+export type ConversationState =
+  | 'idle'
+  | 'user-speaking'
+  | 'waiting'
+  | 'model-speaking'
+  | 'interrupted';
+
+// Microphone level above which the user counts as speaking
+const USER_SPEECH_THRESHOLD = 0.03;
+// Silence after which the user counts as done speaking, in milliseconds
+const USER_SILENCE_MS = 800;
+// How long to wait for an answer before giving up, in milliseconds
+const WAITING_TIMEOUT_MS = 10000;
+// How long the interruption shows before the user has the floor again
+const INTERRUPTED_MS = 800;
+
+type ConversationStateEvents = {
+  change: (state: ConversationState) => void;
+};
+
+/**
+ * Follows the turns of a live session from the user's microphone level and
+ * the model's `audio`, `content`, `turncomplete` and `interrupted` events.
+ * The model keeps speaking until its turn is complete and the last of its
+ * audio has played.
+ */
+export class ConversationStateMachine {
+  private emitter = new EventEmitter<ConversationStateEvents>();
+  private userSpeaking = false;
+  private turnComplete = true;
+  private playing = false;
+  private silenceTimeout?: number;
+  private stateTimeout?: number;
+
+  public state: ConversationState = 'idle';
+
+  constructor(private client: GenAILiveClient) {
+    this.reset = this.reset.bind(this);
+    this.onAudio = this.onAudio.bind(this);
+    this.onContent = this.onContent.bind(this);
+    this.onTurnComplete = this.onTurnComplete.bind(this);
+    this.onInterrupted = this.onInterrupted.bind(this);
+    this.client.on('open', this.reset);
+    this.client.on('close', this.reset);
+    this.client.on('audio', this.onAudio);
+    this.client.on('content', this.onContent);
+    this.client.on('turncomplete', this.onTurnComplete);
+    this.client.on('interrupted', this.onInterrupted);
+  }
+
+  on(event: 'change', listener: ConversationStateEvents['change']): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  off(event: 'change', listener?: ConversationStateEvents['change']): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  dispose() {
+    this.client.off('open', this.reset);
+    this.client.off('close', this.reset);
+    this.client.off('audio', this.onAudio);
+    this.client.off('content', this.onContent);
+    this.client.off('turncomplete', this.onTurnComplete);
+    this.client.off('interrupted', this.onInterrupted);
+    clearTimeout(this.silenceTimeout);
+    clearTimeout(this.stateTimeout);
+    this.emitter.removeAllListeners();
+  }
+
+  /**
+   * Updates the level of the user's microphone, 0 while it is off.
+   */
+  setMicLevel(level: number) {
+    if (level > USER_SPEECH_THRESHOLD) {
+      clearTimeout(this.silenceTimeout);
+      this.silenceTimeout = undefined;
+      this.userSpeaking = true;
+      // The model's own voice may reach the microphone, so only the server
+      // decides when the user interrupts it
+      if (this.state !== 'model-speaking' && this.state !== 'interrupted') {
+        this.setState('user-speaking');
+      }
+    } else if (this.userSpeaking && this.silenceTimeout === undefined) {
+      this.silenceTimeout = window.setTimeout(() => {
+        this.silenceTimeout = undefined;
+        this.userSpeaking = false;
+        if (this.state === 'user-speaking') {
+          this.setState('waiting');
+        }
+      }, USER_SILENCE_MS);
+    }
+  }
+
+  /**
+   * Called when the model's audio has finished playing.
+   */
+  playbackEnded() {
+    this.playing = false;
+    this.finishModelTurn();
+  }
+
+  private reset() {
+    clearTimeout(this.silenceTimeout);
+    this.silenceTimeout = undefined;
+    this.userSpeaking = false;
+    this.turnComplete = true;
+    this.playing = false;
+    this.setState('idle');
+  }
+
+  private onAudio() {
+    this.playing = true;
+    this.turnComplete = false;
+    this.setState('model-speaking');
+  }
+
+  private onContent(content: LiveServerContent) {
+    const hasText = content.modelTurn?.parts?.some(
+      part => part.text && !part.thought
+    );
+    if (hasText) {
+      this.turnComplete = false;
+      this.setState('model-speaking');
+    }
+  }
+
+  private onTurnComplete() {
+    this.turnComplete = true;
+    this.finishModelTurn();
+  }
+
+  private onInterrupted() {
+    this.turnComplete = true;
+    this.playing = false;
+    this.setState('interrupted');
+  }
+
+  private finishModelTurn() {
+    if (this.state === 'model-speaking' && this.turnComplete && !this.playing) {
+      this.setState('idle');
+    }
+  }
+
+  private setState(state: ConversationState) {
+    if (state === this.state) return;
+    clearTimeout(this.stateTimeout);
+    if (state === 'waiting') {
+      this.stateTimeout = window.setTimeout(
+        () => this.setState('idle'),
+        WAITING_TIMEOUT_MS
+      );
+    } else if (state === 'interrupted') {
+      this.stateTimeout = window.setTimeout(
+        () => this.setState(this.userSpeaking ? 'user-speaking' : 'waiting'),
+        INTERRUPTED_MS
+      );
+    }
+    this.state = state;
+    this.emitter.emit('change', state);
+  }
+}
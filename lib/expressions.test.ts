@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { ExpressionTagParser } from './expressions';
+
+describe('ExpressionTagParser', () => {
+  it('strips a tag and reports its expression', () => {
+    const parser = new ExpressionTagParser();
+    expect(parser.push('[happy] Hello there')).toEqual({
+      text: 'Hello there',
+      expression: 'happy',
+    });
+  });
+
+  it('matches tags regardless of case', () => {
+    const parser = new ExpressionTagParser();
+    expect(parser.push('[SURPRISED]Oh!')).toEqual({
+      text: 'Oh!',
+      expression: 'surprised',
+    });
+  });
+
+  it('reports the last of several tags', () => {
+    const parser = new ExpressionTagParser();
+    expect(parser.push('[happy] Yes. [sad] No.')).toEqual({
+      text: 'Yes. No.',
+      expression: 'sad',
+    });
+  });
+
+  it('keeps brackets that are not expression tags', () => {
+    const parser = new ExpressionTagParser();
+    expect(parser.push('See [note 1] below')).toEqual({
+      text: 'See [note 1] below',
+      expression: undefined,
+    });
+  });
+
+  it('holds back a tag split across fragments', () => {
+    const parser = new ExpressionTagParser();
+    expect(parser.push('Well [thin')).toEqual({
+      text: 'Well ',
+      expression: undefined,
+    });
+    expect(parser.push('king] maybe')).toEqual({
+      text: 'maybe',
+      expression: 'thinking',
+    });
+    expect(parser.flush()).toBe('');
+  });
+
+  it('does not hold back brackets too long to be a tag', () => {
+    const parser = new ExpressionTagParser();
+    const text = 'A [long aside without an end';
+    expect(parser.push(text)).toEqual({ text, expression: undefined });
+  });
+
+  it('returns held back text when flushed', () => {
+    const parser = new ExpressionTagParser();
+    expect(parser.push('Done [')).toEqual({
+      text: 'Done ',
+      expression: undefined,
+    });
+    expect(parser.flush()).toBe('[');
+    expect(parser.flush()).toBe('');
+    expect(parser.push('next')).toEqual({
+      text: 'next',
+      expression: undefined,
+    });
+  });
+});
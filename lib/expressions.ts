@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import EventEmitter from 'eventemitter3';
+import { GenAILiveClient } from './genai-live-client';
+import { registerTool } from './tools';
+
+export type Expression =
+  | 'neutral'
+  | 'happy'
+  | 'annoyed'
+  | 'surprised'
+  | 'thinking'
+  | 'sad';
+
+export const EXPRESSIONS: Expression[] = [
+  'neutral',
+  'happy',
+  'annoyed',
+  'surprised',
+  'thinking',
+  'sad',
+];
+
+export const SET_EXPRESSION_TOOL = 'set_expression';
+
+// Lets text replies carry the mood without the tool, the tags are stripped
+// from the transcript
+export const EXPRESSION_TAG_INSTRUCTIONS = `Start every reply with your \
+current mood in square brackets, one of ${EXPRESSIONS.map(
+  expression => `[${expression}]`
+).join(', ')}.`;
+
+const TAG_PATTERN = new RegExp(`\\[(${EXPRESSIONS.join('|')})\\]\\s*`, 'gi');
+
+/**
+ * Emits the expressions agents choose with the `set_expression` tool, along
+ * with the client of the session whose agent chose it.
+ */
+export const expressionEvents = new EventEmitter<{
+  change: (expression: Expression, client: GenAILiveClient) => void;
+}>();
+
+/**
+ * Strips sentiment tags like `[happy]` from text streamed in fragments. A
+ * fragment ending in an unfinished tag is held back until the next one.
+ */
+export class ExpressionTagParser {
+  private held = '';
+
+  push(fragment: string): { text: string; expression?: Expression } {
+    let text = this.held + fragment;
+    this.held = '';
+
+    const open = text.lastIndexOf('[');
+    if (open !== -1 && !text.includes(']', open) && text.length - open < 12) {
+      this.held = text.slice(open);
+      text = text.slice(0, open);
+    }
+
+    let expression: Expression | undefined;
+    text = text.replace(TAG_PATTERN, (_, tag: string) => {
+      expression = tag.toLowerCase() as Expression;
+      return '';
+    });
+    return { text, expression };
+  }
+
+  /**
+   * Returns any held back text, e.g. when the turn is complete.
+   */
+  flush(): string {
+    const text = this.held;
+    this.held = '';
+    return text;
+  }
+}
+
+/**
+ * Built-in tools
+ */
+registerTool<{ expression: Expression }>({
+  name: SET_EXPRESSION_TOOL,
+  description:
+    'Changes the facial expression of your avatar. Call it whenever your mood changes, before you speak.',
+  label: 'tool.set_expression',
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', enum: EXPRESSIONS },
+    },
+    required: ['expression'],
+  },
+  handler: async ({ expression }, signal, client) => {
+    if (!EXPRESSIONS.includes(expression)) {
+      throw new Error(`Unknown expression "${expression}"`);
+    }
+    expressionEvents.emit('change', expression, client);
+    return { expression };
+  },
+});
@@ -42,6 +42,31 @@ export interface GroundingChunk {
   };
 }
 
+export type LiveClientStatus =
+  | 'connected'
+  | 'disconnected'
+  | 'connecting'
+  | 'reconnecting';
+
+/**
+ * Controls how a dropped session is resumed. The delay before attempt `n`
+ * (starting at 0) is `initialDelayMs * backoffFactor ** n`, capped at
+ * `maxDelayMs`.
+ */
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffFactor: number;
+}
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+  backoffFactor: 2,
+};
+
 /**
  * Event types that can be emitted by the MultimodalLiveClient.
  * Each event corresponds to a specific message from GenAI or client state change.
@@ -61,6 +86,12 @@ export interface LiveClientEventTypes {
   log: (log: StreamingLog) => void;
   // Emitted when the connection opens
   open: () => void;
+  // Emitted before each attempt to resume a dropped session
+  reconnecting: (attempt: number, delayMs: number) => void;
+  // Emitted when a dropped session has been resumed
+  resumed: () => void;
+  // Emitted whenever the connection status changes
+  statuschange: (status: LiveClientStatus) => void;
   // Emitted when the initial setup is complete
   setupcomplete: () => void;
   // Emitted when a tool call is received
@@ -73,6 +104,10 @@ export interface LiveClientEventTypes {
   turncomplete: () => void;
   // Emitted when grounding chunks are received
   grounding: (chunks: GroundingChunk[]) => void;
+  // Emitted when a piece of the user's speech has been transcribed
+  inputTranscription: (text: string, finished: boolean) => void;
+  // Emitted when a piece of the model's speech has been transcribed
+  outputTranscription: (text: string, finished: boolean) => void;
 }
 
 // FIX: Switched from inheritance to composition for EventEmitter to fix type resolution issues.
@@ -89,11 +124,26 @@ export class GenAILiveClient {
 
   private emitter = new EventEmitter<LiveClientEventTypes>();
 
-  private _status: 'connected' | 'disconnected' | 'connecting' = 'disconnected';
+  private _status: LiveClientStatus = 'disconnected';
   public get status() {
     return this._status;
   }
 
+  public reconnectPolicy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY;
+
+  // The config of the current conversation, reused when resuming it
+  private config?: LiveConnectConfig;
+  // Latest handle from the server that allows resuming the conversation
+  private resumptionHandle?: string;
+  private reconnectAttempt = 0;
+  private reconnectTimeout?: number;
+  private resuming = false;
+  // Incremented for every session so callbacks of replaced sessions are ignored
+  private sessionId = 0;
+  // Whether the socket of the current session is open, as `Session` does not
+  // expose its state
+  private sessionOpen = false;
+
   /**
    * Creates a new GenAILiveClient instance.
    * @param apiKey - API key for authentication with Google GenAI
@@ -144,38 +194,142 @@ export class GenAILiveClient {
   }
 
   public async connect(config: LiveConnectConfig): Promise<boolean> {
-    if (this._status === 'connected' || this._status === 'connecting') {
+    if (this._status !== 'disconnected') {
+      return false;
+    }
+
+    this.config = config;
+    this.resumptionHandle = undefined;
+    this.reconnectAttempt = 0;
+    this.setStatus('connecting');
+
+    if (!(await this.openSession())) {
+      this.config = undefined;
+      this.setStatus('disconnected');
       return false;
     }
 
-    this._status = 'connecting';
+    this.setStatus('connected');
+    return true;
+  }
+
+  /**
+   * Opens a new session for the current config, resuming the previous
+   * session when a resumption handle is available.
+   */
+  private async openSession(): Promise<boolean> {
+    const id = ++this.sessionId;
     const callbacks: LiveCallbacks = {
-      onopen: this.onOpen.bind(this),
-      onmessage: this.onMessage.bind(this),
-      onerror: this.onError.bind(this),
-      onclose: this.onClose.bind(this),
+      onopen: () => id === this.sessionId && this.onOpen(),
+      onmessage: message => id === this.sessionId && this.onMessage(message),
+      onerror: e => id === this.sessionId && this.onError(e),
+      onclose: e => id === this.sessionId && this.onClose(e),
     };
 
     try {
       this._session = await this.client.live.connect({
         model: this.model,
         config: {
-          ...config,
+          ...this.config,
+          sessionResumption: { handle: this.resumptionHandle },
         },
         callbacks,
       });
     } catch (e) {
       console.error('Error connecting to GenAI Live:', e);
-      this._status = 'disconnected';
       this._session = undefined;
       return false;
     }
+    return true;
+  }
+
+  /**
+   * Schedules the next attempt to resume the conversation according to the
+   * reconnect policy. Returns false if the conversation cannot be resumed.
+   * @param immediate - Skips the backoff delay, e.g. when the server asks to
+   * move to a new session while the current one is still up
+   */
+  private scheduleReconnect(immediate = false): boolean {
+    const { initialDelayMs, maxDelayMs, backoffFactor } = this.reconnectPolicy;
+    if (this.reconnectTimeout) {
+      // Already scheduled, e.g. by both a failed connect and its close event
+      return true;
+    }
+    if (!this.canReconnect()) {
+      return false;
+    }
 
-    this._status = 'connected';
+    const delay = immediate
+      ? 0
+      : Math.min(
+          initialDelayMs * backoffFactor ** this.reconnectAttempt,
+          maxDelayMs
+        );
+    this.reconnectAttempt++;
+    this.setStatus('reconnecting');
+    this.log(
+      'client.reconnect',
+      `attempt ${this.reconnectAttempt} in ${delay}ms`
+    );
+    this.emit('reconnecting', this.reconnectAttempt, delay);
+
+    this.reconnectTimeout = window.setTimeout(() => {
+      this.reconnectTimeout = undefined;
+      this.resuming = true;
+      // Not waited for, as `live.connect` never settles when the socket fails
+      // before opening; onClose schedules the next attempt then. The
+      // resumption completes when the server confirms the setup.
+      this.openSession().then(success => {
+        if (this._status === 'disconnected') {
+          // Disconnected while the session was opening
+          if (success) {
+            this._session?.close();
+            this._session = undefined;
+          }
+        } else if (
+          !success &&
+          this._status === 'reconnecting' &&
+          !this.scheduleReconnect()
+        ) {
+          this.giveUpReconnect();
+        }
+      });
+    }, delay);
     return true;
   }
 
+  /**
+   * Whether a dropped session would be resumed rather than closed.
+   */
+  private canReconnect() {
+    return (
+      !!this.config &&
+      !!this.resumptionHandle &&
+      this.reconnectAttempt < this.reconnectPolicy.maxAttempts
+    );
+  }
+
+  private giveUpReconnect() {
+    this.resuming = false;
+    this.config = undefined;
+    this.resumptionHandle = undefined;
+    this.setStatus('disconnected');
+    this.log('client.reconnect', 'giving up');
+    this.emit(
+      'close',
+      new CloseEvent('close', { reason: 'Could not resume the session' })
+    );
+  }
+
   public disconnect() {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = undefined;
+    }
+    this.config = undefined;
+    this.resumptionHandle = undefined;
+    this.resuming = false;
+
     try {
       if (this._session) {
         this._session.close();
@@ -186,7 +340,8 @@ export class GenAILiveClient {
     }
     
     this._session = undefined;
-    this._status = 'disconnected';
+    this.sessionOpen = false;
+    this.setStatus('disconnected');
     
     try {
       this.log('client.close', `Disconnected`);
@@ -211,8 +366,8 @@ export class GenAILiveClient {
       return;
     }
     
-    // Check WebSocket state
-    if (this.session.readyState !== WebSocket.OPEN) {
+    // The socket may already be closing, e.g. before a goAway
+    if (!this.sessionOpen) {
       return;
     }
     
@@ -245,6 +400,29 @@ export class GenAILiveClient {
     this.log(`client.realtimeInput`, message);
   }
 
+  /**
+   * Marks the start of user activity when automatic activity detection is
+   * disabled, e.g. while push-to-talk is held.
+   */
+  public sendActivityStart() {
+    if (this._status !== 'connected' || !this._session) {
+      return;
+    }
+    this._session.sendRealtimeInput({ activityStart: {} });
+    this.log('client.realtimeInput', 'activityStart');
+  }
+
+  /**
+   * Marks the end of user activity, after which the model responds.
+   */
+  public sendActivityEnd() {
+    if (this._status !== 'connected' || !this._session) {
+      return;
+    }
+    this._session.sendRealtimeInput({ activityEnd: {} });
+    this.log('client.realtimeInput', 'activityEnd');
+  }
+
   public sendToolResponse(toolResponse: LiveClientToolResponse) {
     if (this._status !== 'connected' || !this._session) {
       this.emit('error', new ErrorEvent('Client is not connected'));
@@ -264,9 +442,28 @@ export class GenAILiveClient {
 
   protected onMessage(message: any /* LiveServerMessage */) {
     if (message.setupComplete) {
+      this.reconnectAttempt = 0;
+      if (this.resuming) {
+        this.resuming = false;
+        this.setStatus('connected');
+        this.log('client.reconnect', 'resumed');
+        this.emit('resumed');
+      }
       this.emit('setupcomplete');
       return;
     }
+    if (message.sessionResumptionUpdate) {
+      const { resumable, newHandle } = message.sessionResumptionUpdate;
+      if (resumable && newHandle) {
+        this.resumptionHandle = newHandle;
+      }
+      return;
+    }
+    if (message.goAway) {
+      this.log('server.goAway', `time left: ${message.goAway.timeLeft}`);
+      this.resumeBeforeGoAway();
+      return;
+    }
     if (message.toolCall) {
       this.log('server.toolCall', message);
       this.emit('toolcall', message.toolCall);
@@ -292,6 +489,22 @@ export class GenAILiveClient {
         );
       }
 
+      // Transcriptions arrive independently of the model turn
+      let hasTranscription = false;
+      if (serverContent.inputTranscription) {
+        hasTranscription = true;
+        const { text = '', finished = false } = serverContent.inputTranscription;
+        this.emit('inputTranscription', text, finished);
+        this.log('server.inputTranscription', text);
+      }
+      if (serverContent.outputTranscription) {
+        hasTranscription = true;
+        const { text = '', finished = false } =
+          serverContent.outputTranscription;
+        this.emit('outputTranscription', text, finished);
+        this.log('server.outputTranscription', text);
+      }
+
       if ('interrupted' in serverContent) {
         this.log('receive.serverContent', 'interrupted');
         this.emit('interrupted');
@@ -332,29 +545,58 @@ export class GenAILiveClient {
         const content: LiveServerContent = { modelTurn: serverContent.modelTurn };
         this.emit('content', content);
         this.log(`server.content`, message);
-      } else {
+      } else if (!hasTranscription) {
         console.log('received unmatched message', message);
       }
     }
   }
 
+  /**
+   * The server is about to close the connection; switch to a new session
+   * right away so the conversation carries on without a gap.
+   */
+  private resumeBeforeGoAway() {
+    const oldSession = this._session;
+    this.reconnectAttempt = 0;
+    if (!this.scheduleReconnect(true)) {
+      return;
+    }
+    // Ignore the callbacks of the old session from now on
+    this.sessionId++;
+    this._session = undefined;
+    this.sessionOpen = false;
+    try {
+      oldSession?.close();
+    } catch (error) {
+      console.error('Error closing session:', error);
+    }
+  }
+
   protected onError(e: ErrorEvent) {
-    this._status = 'disconnected';
     console.error('error:', e);
 
     const message = `Could not connect to GenAI Live: ${e.message}`;
     this.log(`server.${e.type}`, message);
-    this.emit('error', e);
+    // Errors on a session that will be resumed are recovered from when it
+    // closes; the others end the conversation
+    if (!this.canReconnect()) {
+      this.emit('error', e);
+    }
   }
 
   protected onOpen() {
-    this._status = 'connected';
+    this.sessionOpen = true;
+    if (this.resuming) {
+      // Resumed once the server confirms the setup of the new session
+      return;
+    }
+    this.setStatus('connected');
     this.emit('open');
   }
 
   protected onClose(e: CloseEvent) {
-    this._status = 'disconnected';
     this._session = undefined;
+    this.sessionOpen = false;
     
     let reason = e.reason || '';
     if (reason.toLowerCase().includes('error')) {
@@ -369,9 +611,26 @@ export class GenAILiveClient {
       `server.${e.type}`,
       `disconnected ${reason ? `with reason: ${reason}` : ``}`
     );
+
+    // A closed session is resumed unless the user hung up themselves
+    if (this._status !== 'disconnected' && this.scheduleReconnect()) {
+      return;
+    }
+    this.resuming = false;
+    this.config = undefined;
+    this.resumptionHandle = undefined;
+    this.setStatus('disconnected');
     this.emit('close', e);
   }
 
+  private setStatus(status: LiveClientStatus) {
+    if (this._status === status) {
+      return;
+    }
+    this._status = status;
+    this.emit('statuschange', status);
+  }
+
   /**
    * Internal method to emit a log event.
    * @param type - Log type
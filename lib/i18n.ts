@@ -0,0 +1,1435 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { useCallback } from 'react';
+import { Agent } from './presets/agents';
+import { useAgent } from './state';
+
+const en = {
+  // Header
+  'header.edit': 'Edit',
+  'header.panel': 'Panel',
+  'header.exitPanel': 'Exit panel',
+  'header.sharedWithYou': 'Shared with you',
+  'header.dismiss': 'Dismiss',
+  'header.presets': 'Presets',
+  'header.yourChatterBots': 'Your ChatterBots',
+  'header.noneYet': 'None yet.',
+  'header.newChatterBot': 'New ChatterBot',
+  'header.import': 'Import',
+  'header.exportAll': 'Export all',
+  'header.invalidJson': 'That file is not valid JSON.',
+  'header.invalidShareLink': 'The share link could not be read. {reason}',
+  'header.yourName': 'Your name',
+
+  // Control tray
+  'controls.muteMicrophone': 'Mute microphone',
+  'controls.unmuteMicrophone': 'Unmute microphone',
+  'controls.muteSpeaker': 'Mute speaker',
+  'controls.unmuteSpeaker': 'Unmute speaker',
+  'controls.turnOnCamera': 'Turn on camera',
+  'controls.turnOffCamera': 'Turn off camera',
+  'controls.shareScreen': 'Share screen',
+  'controls.stopSharingScreen': 'Stop sharing screen',
+  'controls.recordSession': 'Record session',
+  'controls.stopRecording': 'Stop and export recording',
+  'controls.connect': 'Connect',
+  'controls.disconnect': 'Disconnect',
+  'controls.connecting': 'Connecting...',
+  'controls.reconnecting': 'Reconnecting...',
+  'controls.ready': 'Ready',
+  'controls.holdToTalk': 'Hold space to talk',
+  'controls.enableGrounding': 'Enable Google Search Grounding',
+  'controls.disableGrounding': 'Disable Google Search Grounding',
+  'controls.answerWithText': 'Answer with text only',
+  'controls.answerWithVoice': 'Answer with voice',
+  'controls.messagePlaceholder': 'Type a message…',
+  'controls.sendMessage': 'Send message',
+  'conversation.idle': 'Streaming',
+  'conversation.user-speaking': 'Listening',
+  'conversation.waiting': 'Thinking…',
+  'conversation.model-speaking': 'Speaking',
+  'conversation.interrupted': 'Interrupted',
+
+  // User settings
+  'settings.intro':
+    'This is a simple tool that allows you to design, test, and banter with custom AI characters on the fly.',
+  'settings.optionalInfo':
+    'Adding this optional info makes the experience more fun:',
+  'settings.yourName': 'Your name',
+  'settings.namePlaceholder': 'What do you like to be called?',
+  'settings.yourInfo': 'Your info',
+  'settings.infoPlaceholder':
+    'Things we should know about you… Likes, dislikes, hobbies, interests, favorite movies, books, tv shows, foods, etc.',
+  'settings.microphone': 'Microphone',
+  'settings.microphoneNumber': 'Microphone {number}',
+  'settings.systemDefault': 'System default',
+  'settings.echoCancellation': 'Echo cancellation',
+  'settings.noiseSuppression': 'Noise suppression',
+  'settings.autoGainControl': 'Automatic gain control',
+  'settings.whenYouTalk': 'When you talk',
+  'settings.turnDetection.server': 'Automatic (server)',
+  'settings.turnDetection.client': 'Automatic (in browser)',
+  'settings.turnDetection.push-to-talk': 'Push to talk (hold space)',
+  'settings.speaker': 'Speaker',
+  'settings.speakerNumber': 'Speaker {number}',
+  'settings.volume': 'Volume',
+  'settings.whenYouInterrupt': 'When you interrupt',
+  'settings.fadeNone': 'Stop immediately',
+  'settings.fadeShort': 'Short fade',
+  'settings.fadeMedium': 'Medium fade',
+  'settings.fadeLong': 'Long fade',
+  'settings.videoFps': 'Camera and screen frames per second',
+  'settings.systemInstructions': 'System instructions',
+  'settings.resetToDefault': 'Reset to default',
+  'settings.customVariables': 'Custom variables',
+  'settings.newVariable': 'New variable name',
+  'settings.addVariable': 'Add variable',
+  'settings.removeVariable': 'Remove variable',
+  'settings.previewWith': 'Preview with {name}',
+  'settings.letsGo': 'Let’s go!',
+
+  // Agent editor
+  'agent.name': 'Name',
+  'agent.templateSection': 'System instructions template',
+  'agent.ownTemplate': 'Use its own template instead of the default',
+  'agent.customColor': 'Custom color',
+  'agent.eyeSpacing': 'Eye spacing',
+  'agent.eyeSize': 'Eye size',
+  'agent.mouthWidth': 'Mouth width',
+  'agent.background': 'Background',
+  'agent.background.circle': 'Circle',
+  'agent.background.rounded': 'Rounded',
+  'agent.background.hexagon': 'Hexagon',
+  'agent.accessory.glasses': 'Glasses',
+  'agent.accessory.hat': 'Hat',
+  'agent.accessory.mustache': 'Mustache',
+  'agent.voice': 'Voice',
+  'agent.language': 'Language',
+  'agent.automatic': 'Automatic',
+  'agent.avatar': 'Avatar',
+  'agent.avatar.basic': 'Classic',
+  'agent.avatar.pixel': 'Pixel art',
+  'agent.avatar.resolution': 'Pixels across',
+  'agent.avatar.resolution.chunky': 'Chunky',
+  'agent.avatar.resolution.medium': 'Medium',
+  'agent.avatar.resolution.fine': 'Fine',
+  'agent.volume': 'Volume',
+  'agent.tools': 'Tools',
+  'agent.export': 'Export',
+  'agent.copyShareLink': 'Copy share link',
+  'agent.linkCopied': 'Link copied',
+  'agent.resetToDefault': 'Reset to default',
+  'agent.letsGo': 'Let’s go!',
+
+  // Tool descriptions shown in the agent editor
+  'tool.get_current_time': 'Tells the agent your local date and time',
+  'tool.set_expression': 'Lets the agent change its facial expression',
+
+  // Personality editor
+  'personality.label': 'Personality',
+  'personality.builder': 'Builder',
+  'personality.raw': 'Raw text',
+  'personality.role': 'Role',
+  'personality.rolePlaceholder': 'Who am I? Whatʼs my purpose?',
+  'personality.speakingStyle': 'Speaking style',
+  'personality.speakingStylePlaceholder':
+    'How do I talk? e.g. laid-back, full of slang',
+  'personality.wordLimit': 'Word limit',
+  'personality.noLimit': 'No limit',
+  'personality.knowledge': 'Knowledge',
+  'personality.knowledgePlaceholder':
+    'What do I know a lot about? One subject per line',
+  'personality.catchphrases': 'Catchphrases',
+  'personality.catchphrasesPlaceholder': 'One phrase per line',
+  'personality.topicsToAvoid': 'Topics to avoid',
+  'personality.topicsToAvoidPlaceholder': 'One topic per line',
+  'personality.examples': 'Example exchanges',
+  'personality.userSays': 'The user says…',
+  'personality.agentAnswers': 'And I answer…',
+  'personality.removeExample': 'Remove example',
+  'personality.addExample': 'Add example',
+  'personality.rawPlaceholder':
+    'How should I act? Whatʼs my purpose? How would you describe my personality?',
+  'personality.preview': 'Preview system instructions',
+
+  // Template editor
+  'template.variableHint': 'inserts a variable',
+  'template.sectionHint': 'shows text only when the variable is set',
+  'template.customVariable': 'Custom variable',
+
+  // Panel
+  'panel.title': 'Panel',
+  'panel.intro': 'Pick {min} to {max} ChatterBots to talk with each other.',
+  'panel.turns': 'Turns',
+  'panel.policy.round-robin': 'Round robin',
+  'panel.policy.random': 'Random',
+  'panel.start': 'Start panel',
+  'panel.starting': 'Starting…',
+  'panel.startFailed': 'The panel could not start. {reason}',
+  'panel.end': 'End panel',
+
+  // Preset names, shown translated while they are not renamed
+  'preset.proper-paul': '🫖 Proper Paul',
+  'preset.chic-charlotte': '👠 Chic Charlotte',
+  'preset.chef-shane': '🍳 Chef Shane',
+  'preset.passport-penny': '✈️ Passport Penny',
+  'preset.news-agent': '📰 News Agent',
+
+  // Error screen
+  'error.generic': 'Something went wrong. Please try again.',
+  'error.quota':
+    'Gemini Live API in AI Studio has a limited free quota each day. Come back tomorrow to continue.',
+  'error.close': 'Close',
+};
+
+export type MessageKey = keyof typeof en;
+
+type Messages = Record<MessageKey, string>;
+
+const de: Messages = {
+  'header.edit': 'Bearbeiten',
+  'header.panel': 'Podium',
+  'header.exitPanel': 'Podium verlassen',
+  'header.sharedWithYou': 'Mit dir geteilt',
+  'header.dismiss': 'Verwerfen',
+  'header.presets': 'Vorlagen',
+  'header.yourChatterBots': 'Deine ChatterBots',
+  'header.noneYet': 'Noch keine.',
+  'header.newChatterBot': 'Neuer ChatterBot',
+  'header.import': 'Importieren',
+  'header.exportAll': 'Alle exportieren',
+  'header.invalidJson': 'Diese Datei ist kein gültiges JSON.',
+  'header.invalidShareLink':
+    'Der geteilte Link konnte nicht gelesen werden. {reason}',
+  'header.yourName': 'Dein Name',
+
+  'controls.muteMicrophone': 'Mikrofon stummschalten',
+  'controls.unmuteMicrophone': 'Mikrofon einschalten',
+  'controls.muteSpeaker': 'Lautsprecher stummschalten',
+  'controls.unmuteSpeaker': 'Lautsprecher einschalten',
+  'controls.turnOnCamera': 'Kamera einschalten',
+  'controls.turnOffCamera': 'Kamera ausschalten',
+  'controls.shareScreen': 'Bildschirm teilen',
+  'controls.stopSharingScreen': 'Bildschirmfreigabe beenden',
+  'controls.recordSession': 'Sitzung aufnehmen',
+  'controls.stopRecording': 'Aufnahme beenden und exportieren',
+  'controls.connect': 'Verbinden',
+  'controls.disconnect': 'Trennen',
+  'controls.connecting': 'Verbinde...',
+  'controls.reconnecting': 'Verbinde erneut...',
+  'controls.ready': 'Bereit',
+  'controls.holdToTalk': 'Leertaste halten zum Sprechen',
+  'controls.enableGrounding': 'Google-Suche aktivieren',
+  'controls.disableGrounding': 'Google-Suche deaktivieren',
+  'controls.answerWithText': 'Nur mit Text antworten',
+  'controls.answerWithVoice': 'Mit Stimme antworten',
+  'controls.messagePlaceholder': 'Nachricht eingeben…',
+  'controls.sendMessage': 'Nachricht senden',
+  'conversation.idle': 'Verbunden',
+  'conversation.user-speaking': 'Hört zu',
+  'conversation.waiting': 'Denkt nach…',
+  'conversation.model-speaking': 'Spricht',
+  'conversation.interrupted': 'Unterbrochen',
+
+  'settings.intro':
+    'Mit diesem einfachen Werkzeug kannst du eigene KI-Charaktere im Handumdrehen entwerfen, testen und mit ihnen plaudern.',
+  'settings.optionalInfo':
+    'Mit diesen optionalen Angaben macht es noch mehr Spaß:',
+  'settings.yourName': 'Dein Name',
+  'settings.namePlaceholder': 'Wie möchtest du genannt werden?',
+  'settings.yourInfo': 'Über dich',
+  'settings.infoPlaceholder':
+    'Was wir über dich wissen sollten… Vorlieben, Abneigungen, Hobbys, Interessen, Lieblingsfilme, Bücher, Serien, Essen usw.',
+  'settings.microphone': 'Mikrofon',
+  'settings.microphoneNumber': 'Mikrofon {number}',
+  'settings.systemDefault': 'Systemstandard',
+  'settings.echoCancellation': 'Echounterdrückung',
+  'settings.noiseSuppression': 'Rauschunterdrückung',
+  'settings.autoGainControl': 'Automatische Verstärkung',
+  'settings.whenYouTalk': 'Wenn du sprichst',
+  'settings.turnDetection.server': 'Automatisch (Server)',
+  'settings.turnDetection.client': 'Automatisch (im Browser)',
+  'settings.turnDetection.push-to-talk': 'Zum Sprechen Leertaste halten',
+  'settings.speaker': 'Lautsprecher',
+  'settings.speakerNumber': 'Lautsprecher {number}',
+  'settings.volume': 'Lautstärke',
+  'settings.whenYouInterrupt': 'Wenn du unterbrichst',
+  'settings.fadeNone': 'Sofort anhalten',
+  'settings.fadeShort': 'Kurz ausblenden',
+  'settings.fadeMedium': 'Mittel ausblenden',
+  'settings.fadeLong': 'Lang ausblenden',
+  'settings.videoFps': 'Bilder pro Sekunde von Kamera und Bildschirm',
+  'settings.systemInstructions': 'Systemanweisungen',
+  'settings.resetToDefault': 'Auf Standard zurücksetzen',
+  'settings.customVariables': 'Eigene Variablen',
+  'settings.newVariable': 'Name der neuen Variable',
+  'settings.addVariable': 'Variable hinzufügen',
+  'settings.removeVariable': 'Variable entfernen',
+  'settings.previewWith': 'Vorschau mit {name}',
+  'settings.letsGo': 'Los geht’s!',
+
+  'agent.name': 'Name',
+  'agent.templateSection': 'Vorlage für Systemanweisungen',
+  'agent.ownTemplate': 'Eigene Vorlage statt der Standardvorlage verwenden',
+  'agent.customColor': 'Eigene Farbe',
+  'agent.eyeSpacing': 'Augenabstand',
+  'agent.eyeSize': 'Augengröße',
+  'agent.mouthWidth': 'Mundbreite',
+  'agent.background': 'Hintergrund',
+  'agent.background.circle': 'Kreis',
+  'agent.background.rounded': 'Abgerundet',
+  'agent.background.hexagon': 'Sechseck',
+  'agent.accessory.glasses': 'Brille',
+  'agent.accessory.hat': 'Hut',
+  'agent.accessory.mustache': 'Schnurrbart',
+  'agent.voice': 'Stimme',
+  'agent.language': 'Sprache',
+  'agent.automatic': 'Automatisch',
+  'agent.avatar': 'Avatar',
+  'agent.avatar.basic': 'Klassisch',
+  'agent.avatar.pixel': 'Pixel-Art',
+  'agent.avatar.resolution': 'Pixel in der Breite',
+  'agent.avatar.resolution.chunky': 'Grob',
+  'agent.avatar.resolution.medium': 'Mittel',
+  'agent.avatar.resolution.fine': 'Fein',
+  'agent.volume': 'Lautstärke',
+  'agent.tools': 'Werkzeuge',
+  'agent.export': 'Exportieren',
+  'agent.copyShareLink': 'Link zum Teilen kopieren',
+  'agent.linkCopied': 'Link kopiert',
+  'agent.resetToDefault': 'Auf Standard zurücksetzen',
+  'agent.letsGo': 'Los geht’s!',
+
+  'tool.get_current_time':
+    'Verrät dem Agenten dein lokales Datum und deine Uhrzeit',
+  'tool.set_expression': 'Lässt den Agenten seinen Gesichtsausdruck ändern',
+
+  'personality.label': 'Persönlichkeit',
+  'personality.builder': 'Baukasten',
+  'personality.raw': 'Freitext',
+  'personality.role': 'Rolle',
+  'personality.rolePlaceholder': 'Wer bin ich? Was ist meine Aufgabe?',
+  'personality.speakingStyle': 'Sprechweise',
+  'personality.speakingStylePlaceholder':
+    'Wie spreche ich? z. B. locker, voller Slang',
+  'personality.wordLimit': 'Wortlimit',
+  'personality.noLimit': 'Kein Limit',
+  'personality.knowledge': 'Wissen',
+  'personality.knowledgePlaceholder':
+    'Worüber weiß ich viel? Ein Thema pro Zeile',
+  'personality.catchphrases': 'Sprüche',
+  'personality.catchphrasesPlaceholder': 'Ein Spruch pro Zeile',
+  'personality.topicsToAvoid': 'Zu meidende Themen',
+  'personality.topicsToAvoidPlaceholder': 'Ein Thema pro Zeile',
+  'personality.examples': 'Beispieldialoge',
+  'personality.userSays': 'Der Nutzer sagt…',
+  'personality.agentAnswers': 'Und ich antworte…',
+  'personality.removeExample': 'Beispiel entfernen',
+  'personality.addExample': 'Beispiel hinzufügen',
+  'personality.rawPlaceholder':
+    'Wie soll ich mich verhalten? Was ist meine Aufgabe? Wie würdest du meine Persönlichkeit beschreiben?',
+  'personality.preview': 'Vorschau der Systemanweisungen',
+
+  'template.variableHint': 'fügt eine Variable ein',
+  'template.sectionHint': 'zeigt Text nur, wenn die Variable gesetzt ist',
+  'template.customVariable': 'Eigene Variable',
+
+  'panel.title': 'Podium',
+  'panel.intro': 'Wähle {min} bis {max} ChatterBots, die miteinander reden.',
+  'panel.turns': 'Reihenfolge',
+  'panel.policy.round-robin': 'Der Reihe nach',
+  'panel.policy.random': 'Zufällig',
+  'panel.start': 'Podium starten',
+  'panel.starting': 'Startet…',
+  'panel.startFailed': 'Das Podium konnte nicht starten. {reason}',
+  'panel.end': 'Podium beenden',
+
+  'preset.proper-paul': '🫖 Proper Paul',
+  'preset.chic-charlotte': '👠 Chic Charlotte',
+  'preset.chef-shane': '🍳 Chefkoch Shane',
+  'preset.passport-penny': '✈️ Passport Penny',
+  'preset.news-agent': '📰 Nachrichten-Agent',
+
+  'error.generic': 'Etwas ist schiefgelaufen. Bitte versuche es erneut.',
+  'error.quota':
+    'Die Gemini Live API in AI Studio hat ein begrenztes tägliches Gratiskontingent. Komm morgen wieder, um weiterzumachen.',
+  'error.close': 'Schließen',
+};
+
+const es: Messages = {
+  'header.edit': 'Editar',
+  'header.panel': 'Panel',
+  'header.exitPanel': 'Salir del panel',
+  'header.sharedWithYou': 'Compartido contigo',
+  'header.dismiss': 'Descartar',
+  'header.presets': 'Predefinidos',
+  'header.yourChatterBots': 'Tus ChatterBots',
+  'header.noneYet': 'Todavía ninguno.',
+  'header.newChatterBot': 'Nuevo ChatterBot',
+  'header.import': 'Importar',
+  'header.exportAll': 'Exportar todos',
+  'header.invalidJson': 'Ese archivo no es un JSON válido.',
+  'header.invalidShareLink': 'No se pudo leer el enlace compartido. {reason}',
+  'header.yourName': 'Tu nombre',
+
+  'controls.muteMicrophone': 'Silenciar micrófono',
+  'controls.unmuteMicrophone': 'Activar micrófono',
+  'controls.muteSpeaker': 'Silenciar altavoz',
+  'controls.unmuteSpeaker': 'Activar altavoz',
+  'controls.turnOnCamera': 'Encender cámara',
+  'controls.turnOffCamera': 'Apagar cámara',
+  'controls.shareScreen': 'Compartir pantalla',
+  'controls.stopSharingScreen': 'Dejar de compartir pantalla',
+  'controls.recordSession': 'Grabar sesión',
+  'controls.stopRecording': 'Detener y exportar grabación',
+  'controls.connect': 'Conectar',
+  'controls.disconnect': 'Desconectar',
+  'controls.connecting': 'Conectando...',
+  'controls.reconnecting': 'Reconectando...',
+  'controls.ready': 'Listo',
+  'controls.holdToTalk': 'Mantén la barra espaciadora para hablar',
+  'controls.enableGrounding': 'Activar la Búsqueda de Google',
+  'controls.disableGrounding': 'Desactivar la Búsqueda de Google',
+  'controls.answerWithText': 'Responder solo con texto',
+  'controls.answerWithVoice': 'Responder con voz',
+  'controls.messagePlaceholder': 'Escribe un mensaje…',
+  'controls.sendMessage': 'Enviar mensaje',
+  'conversation.idle': 'Conectado',
+  'conversation.user-speaking': 'Escuchando',
+  'conversation.waiting': 'Pensando…',
+  'conversation.model-speaking': 'Hablando',
+  'conversation.interrupted': 'Interrumpido',
+
+  'settings.intro':
+    'Esta es una herramienta sencilla para diseñar, probar y charlar al instante con personajes de IA personalizados.',
+  'settings.optionalInfo':
+    'Añadir esta información opcional hace la experiencia más divertida:',
+  'settings.yourName': 'Tu nombre',
+  'settings.namePlaceholder': '¿Cómo te gusta que te llamen?',
+  'settings.yourInfo': 'Sobre ti',
+  'settings.infoPlaceholder':
+    'Cosas que deberíamos saber de ti… Gustos, aficiones, intereses, películas, libros, series y comidas favoritas, etc.',
+  'settings.microphone': 'Micrófono',
+  'settings.microphoneNumber': 'Micrófono {number}',
+  'settings.systemDefault': 'Predeterminado del sistema',
+  'settings.echoCancellation': 'Cancelación de eco',
+  'settings.noiseSuppression': 'Supresión de ruido',
+  'settings.autoGainControl': 'Control automático de ganancia',
+  'settings.whenYouTalk': 'Cuando hablas',
+  'settings.turnDetection.server': 'Automático (servidor)',
+  'settings.turnDetection.client': 'Automático (en el navegador)',
+  'settings.turnDetection.push-to-talk':
+    'Pulsar para hablar (mantén la barra espaciadora)',
+  'settings.speaker': 'Altavoz',
+  'settings.speakerNumber': 'Altavoz {number}',
+  'settings.volume': 'Volumen',
+  'settings.whenYouInterrupt': 'Cuando interrumpes',
+  'settings.fadeNone': 'Detener de inmediato',
+  'settings.fadeShort': 'Fundido corto',
+  'settings.fadeMedium': 'Fundido medio',
+  'settings.fadeLong': 'Fundido largo',
+  'settings.videoFps': 'Fotogramas por segundo de cámara y pantalla',
+  'settings.systemInstructions': 'Instrucciones del sistema',
+  'settings.resetToDefault': 'Restablecer',
+  'settings.customVariables': 'Variables personalizadas',
+  'settings.newVariable': 'Nombre de la nueva variable',
+  'settings.addVariable': 'Añadir variable',
+  'settings.removeVariable': 'Quitar variable',
+  'settings.previewWith': 'Vista previa con {name}',
+  'settings.letsGo': '¡Vamos!',
+
+  'agent.name': 'Nombre',
+  'agent.templateSection': 'Plantilla de instrucciones del sistema',
+  'agent.ownTemplate': 'Usar su propia plantilla en lugar de la predeterminada',
+  'agent.customColor': 'Color personalizado',
+  'agent.eyeSpacing': 'Separación de los ojos',
+  'agent.eyeSize': 'Tamaño de los ojos',
+  'agent.mouthWidth': 'Ancho de la boca',
+  'agent.background': 'Fondo',
+  'agent.background.circle': 'Círculo',
+  'agent.background.rounded': 'Redondeado',
+  'agent.background.hexagon': 'Hexágono',
+  'agent.accessory.glasses': 'Gafas',
+  'agent.accessory.hat': 'Sombrero',
+  'agent.accessory.mustache': 'Bigote',
+  'agent.voice': 'Voz',
+  'agent.language': 'Idioma',
+  'agent.automatic': 'Automático',
+  'agent.avatar': 'Avatar',
+  'agent.avatar.basic': 'Clásico',
+  'agent.avatar.pixel': 'Pixel art',
+  'agent.avatar.resolution': 'Píxeles de ancho',
+  'agent.avatar.resolution.chunky': 'Grueso',
+  'agent.avatar.resolution.medium': 'Medio',
+  'agent.avatar.resolution.fine': 'Fino',
+  'agent.volume': 'Volumen',
+  'agent.tools': 'Herramientas',
+  'agent.export': 'Exportar',
+  'agent.copyShareLink': 'Copiar enlace para compartir',
+  'agent.linkCopied': 'Enlace copiado',
+  'agent.resetToDefault': 'Restablecer',
+  'agent.letsGo': '¡Vamos!',
+
+  'tool.get_current_time': 'Le dice al agente tu fecha y hora local',
+  'tool.set_expression': 'Permite al agente cambiar su expresión facial',
+
+  'personality.label': 'Personalidad',
+  'personality.builder': 'Asistente',
+  'personality.raw': 'Texto libre',
+  'personality.role': 'Papel',
+  'personality.rolePlaceholder': '¿Quién soy? ¿Cuál es mi propósito?',
+  'personality.speakingStyle': 'Forma de hablar',
+  'personality.speakingStylePlaceholder':
+    '¿Cómo hablo? p. ej. relajado, lleno de jerga',
+  'personality.wordLimit': 'Límite de palabras',
+  'personality.noLimit': 'Sin límite',
+  'personality.knowledge': 'Conocimientos',
+  'personality.knowledgePlaceholder': '¿De qué sé mucho? Un tema por línea',
+  'personality.catchphrases': 'Muletillas',
+  'personality.catchphrasesPlaceholder': 'Una frase por línea',
+  'personality.topicsToAvoid': 'Temas a evitar',
+  'personality.topicsToAvoidPlaceholder': 'Un tema por línea',
+  'personality.examples': 'Diálogos de ejemplo',
+  'personality.userSays': 'El usuario dice…',
+  'personality.agentAnswers': 'Y yo respondo…',
+  'personality.removeExample': 'Quitar ejemplo',
+  'personality.addExample': 'Añadir ejemplo',
+  'personality.rawPlaceholder':
+    '¿Cómo debo actuar? ¿Cuál es mi propósito? ¿Cómo describirías mi personalidad?',
+  'personality.preview': 'Vista previa de las instrucciones del sistema',
+
+  'template.variableHint': 'inserta una variable',
+  'template.sectionHint': 'muestra texto solo si la variable tiene valor',
+  'template.customVariable': 'Variable personalizada',
+
+  'panel.title': 'Panel',
+  'panel.intro':
+    'Elige de {min} a {max} ChatterBots para que hablen entre ellos.',
+  'panel.turns': 'Turnos',
+  'panel.policy.round-robin': 'Por turnos',
+  'panel.policy.random': 'Al azar',
+  'panel.start': 'Empezar el panel',
+  'panel.starting': 'Empezando…',
+  'panel.startFailed': 'No se pudo empezar el panel. {reason}',
+  'panel.end': 'Terminar el panel',
+
+  'preset.proper-paul': '🫖 Proper Paul',
+  'preset.chic-charlotte': '👠 Chic Charlotte',
+  'preset.chef-shane': '🍳 Chef Shane',
+  'preset.passport-penny': '✈️ Passport Penny',
+  'preset.news-agent': '📰 Agente de noticias',
+
+  'error.generic': 'Algo salió mal. Inténtalo de nuevo.',
+  'error.quota':
+    'La API de Gemini Live en AI Studio tiene una cuota gratuita diaria limitada. Vuelve mañana para continuar.',
+  'error.close': 'Cerrar',
+};
+
+const fr: Messages = {
+  'header.edit': 'Modifier',
+  'header.panel': 'Débat',
+  'header.exitPanel': 'Quitter le débat',
+  'header.sharedWithYou': 'Partagé avec vous',
+  'header.dismiss': 'Ignorer',
+  'header.presets': 'Modèles',
+  'header.yourChatterBots': 'Vos ChatterBots',
+  'header.noneYet': 'Aucun pour l’instant.',
+  'header.newChatterBot': 'Nouveau ChatterBot',
+  'header.import': 'Importer',
+  'header.exportAll': 'Tout exporter',
+  'header.invalidJson': 'Ce fichier n’est pas un JSON valide.',
+  'header.invalidShareLink': 'Le lien de partage n’a pas pu être lu. {reason}',
+  'header.yourName': 'Votre nom',
+
+  'controls.muteMicrophone': 'Couper le micro',
+  'controls.unmuteMicrophone': 'Activer le micro',
+  'controls.muteSpeaker': 'Couper le son',
+  'controls.unmuteSpeaker': 'Activer le son',
+  'controls.turnOnCamera': 'Activer la caméra',
+  'controls.turnOffCamera': 'Désactiver la caméra',
+  'controls.shareScreen': 'Partager l’écran',
+  'controls.stopSharingScreen': 'Arrêter le partage d’écran',
+  'controls.recordSession': 'Enregistrer la session',
+  'controls.stopRecording': 'Arrêter et exporter l’enregistrement',
+  'controls.connect': 'Se connecter',
+  'controls.disconnect': 'Se déconnecter',
+  'controls.connecting': 'Connexion...',
+  'controls.reconnecting': 'Reconnexion...',
+  'controls.ready': 'Prêt',
+  'controls.holdToTalk': 'Maintenez la barre d’espace pour parler',
+  'controls.enableGrounding': 'Activer la recherche Google',
+  'controls.disableGrounding': 'Désactiver la recherche Google',
+  'controls.answerWithText': 'Répondre uniquement par texte',
+  'controls.answerWithVoice': 'Répondre à voix haute',
+  'controls.messagePlaceholder': 'Écrivez un message…',
+  'controls.sendMessage': 'Envoyer le message',
+  'conversation.idle': 'Connecté',
+  'conversation.user-speaking': 'À l’écoute',
+  'conversation.waiting': 'Réfléchit…',
+  'conversation.model-speaking': 'Parle',
+  'conversation.interrupted': 'Interrompu',
+
+  'settings.intro':
+    'Cet outil simple vous permet de concevoir, tester et discuter à la volée avec des personnages IA personnalisés.',
+  'settings.optionalInfo':
+    'Ces informations facultatives rendent l’expérience plus amusante :',
+  'settings.yourName': 'Votre nom',
+  'settings.namePlaceholder': 'Comment aimez-vous qu’on vous appelle ?',
+  'settings.yourInfo': 'À propos de vous',
+  'settings.infoPlaceholder':
+    'Ce que nous devrions savoir sur vous… Goûts, passe-temps, centres d’intérêt, films, livres, séries et plats préférés, etc.',
+  'settings.microphone': 'Micro',
+  'settings.microphoneNumber': 'Micro {number}',
+  'settings.systemDefault': 'Par défaut du système',
+  'settings.echoCancellation': 'Annulation d’écho',
+  'settings.noiseSuppression': 'Réduction du bruit',
+  'settings.autoGainControl': 'Contrôle automatique du gain',
+  'settings.whenYouTalk': 'Quand vous parlez',
+  'settings.turnDetection.server': 'Automatique (serveur)',
+  'settings.turnDetection.client': 'Automatique (dans le navigateur)',
+  'settings.turnDetection.push-to-talk':
+    'Appuyer pour parler (maintenir la barre d’espace)',
+  'settings.speaker': 'Haut-parleur',
+  'settings.speakerNumber': 'Haut-parleur {number}',
+  'settings.volume': 'Volume',
+  'settings.whenYouInterrupt': 'Quand vous interrompez',
+  'settings.fadeNone': 'Arrêter immédiatement',
+  'settings.fadeShort': 'Fondu court',
+  'settings.fadeMedium': 'Fondu moyen',
+  'settings.fadeLong': 'Fondu long',
+  'settings.videoFps': 'Images par seconde de la caméra et de l’écran',
+  'settings.systemInstructions': 'Instructions système',
+  'settings.resetToDefault': 'Rétablir par défaut',
+  'settings.customVariables': 'Variables personnalisées',
+  'settings.newVariable': 'Nom de la nouvelle variable',
+  'settings.addVariable': 'Ajouter une variable',
+  'settings.removeVariable': 'Supprimer la variable',
+  'settings.previewWith': 'Aperçu avec {name}',
+  'settings.letsGo': 'C’est parti !',
+
+  'agent.name': 'Nom',
+  'agent.templateSection': 'Modèle d’instructions système',
+  'agent.ownTemplate': 'Utiliser son propre modèle au lieu de celui par défaut',
+  'agent.customColor': 'Couleur personnalisée',
+  'agent.eyeSpacing': 'Écart des yeux',
+  'agent.eyeSize': 'Taille des yeux',
+  'agent.mouthWidth': 'Largeur de la bouche',
+  'agent.background': 'Arrière-plan',
+  'agent.background.circle': 'Cercle',
+  'agent.background.rounded': 'Arrondi',
+  'agent.background.hexagon': 'Hexagone',
+  'agent.accessory.glasses': 'Lunettes',
+  'agent.accessory.hat': 'Chapeau',
+  'agent.accessory.mustache': 'Moustache',
+  'agent.voice': 'Voix',
+  'agent.language': 'Langue',
+  'agent.automatic': 'Automatique',
+  'agent.avatar': 'Avatar',
+  'agent.avatar.basic': 'Classique',
+  'agent.avatar.pixel': 'Pixel art',
+  'agent.avatar.resolution': 'Pixels en largeur',
+  'agent.avatar.resolution.chunky': 'Gros',
+  'agent.avatar.resolution.medium': 'Moyen',
+  'agent.avatar.resolution.fine': 'Fin',
+  'agent.volume': 'Volume',
+  'agent.tools': 'Outils',
+  'agent.export': 'Exporter',
+  'agent.copyShareLink': 'Copier le lien de partage',
+  'agent.linkCopied': 'Lien copié',
+  'agent.resetToDefault': 'Rétablir par défaut',
+  'agent.letsGo': 'C’est parti !',
+
+  'tool.get_current_time': 'Donne à l’agent votre date et heure locales',
+  'tool.set_expression': 'Permet à l’agent de changer d’expression',
+
+  'personality.label': 'Personnalité',
+  'personality.builder': 'Assistant',
+  'personality.raw': 'Texte libre',
+  'personality.role': 'Rôle',
+  'personality.rolePlaceholder': 'Qui suis-je ? Quel est mon rôle ?',
+  'personality.speakingStyle': 'Façon de parler',
+  'personality.speakingStylePlaceholder':
+    'Comment je parle ? ex. décontracté, plein d’argot',
+  'personality.wordLimit': 'Limite de mots',
+  'personality.noLimit': 'Aucune limite',
+  'personality.knowledge': 'Connaissances',
+  'personality.knowledgePlaceholder':
+    'Qu’est-ce que je connais bien ? Un sujet par ligne',
+  'personality.catchphrases': 'Phrases fétiches',
+  'personality.catchphrasesPlaceholder': 'Une phrase par ligne',
+  'personality.topicsToAvoid': 'Sujets à éviter',
+  'personality.topicsToAvoidPlaceholder': 'Un sujet par ligne',
+  'personality.examples': 'Exemples d’échanges',
+  'personality.userSays': 'L’utilisateur dit…',
+  'personality.agentAnswers': 'Et je réponds…',
+  'personality.removeExample': 'Supprimer l’exemple',
+  'personality.addExample': 'Ajouter un exemple',
+  'personality.rawPlaceholder':
+    'Comment dois-je me comporter ? Quel est mon rôle ? Comment décririez-vous ma personnalité ?',
+  'personality.preview': 'Aperçu des instructions système',
+
+  'template.variableHint': 'insère une variable',
+  'template.sectionHint':
+    'affiche du texte seulement si la variable est définie',
+  'template.customVariable': 'Variable personnalisée',
+
+  'panel.title': 'Débat',
+  'panel.intro':
+    'Choisissez de {min} à {max} ChatterBots qui discuteront entre eux.',
+  'panel.turns': 'Tours de parole',
+  'panel.policy.round-robin': 'Chacun son tour',
+  'panel.policy.random': 'Au hasard',
+  'panel.start': 'Lancer le débat',
+  'panel.starting': 'Lancement…',
+  'panel.startFailed': 'Le débat n’a pas pu démarrer. {reason}',
+  'panel.end': 'Terminer le débat',
+
+  'preset.proper-paul': '🫖 Proper Paul',
+  'preset.chic-charlotte': '👠 Chic Charlotte',
+  'preset.chef-shane': '🍳 Chef Shane',
+  'preset.passport-penny': '✈️ Passport Penny',
+  'preset.news-agent': '📰 Agent d’actualités',
+
+  'error.generic': 'Un problème est survenu. Veuillez réessayer.',
+  'error.quota':
+    'L’API Gemini Live dans AI Studio dispose d’un quota gratuit limité chaque jour. Revenez demain pour continuer.',
+  'error.close': 'Fermer',
+};
+
+const it: Messages = {
+  'header.edit': 'Modifica',
+  'header.panel': 'Dibattito',
+  'header.exitPanel': 'Esci dal dibattito',
+  'header.sharedWithYou': 'Condiviso con te',
+  'header.dismiss': 'Ignora',
+  'header.presets': 'Modelli',
+  'header.yourChatterBots': 'I tuoi ChatterBot',
+  'header.noneYet': 'Ancora nessuno.',
+  'header.newChatterBot': 'Nuovo ChatterBot',
+  'header.import': 'Importa',
+  'header.exportAll': 'Esporta tutti',
+  'header.invalidJson': 'Questo file non è un JSON valido.',
+  'header.invalidShareLink':
+    'Non è stato possibile leggere il link condiviso. {reason}',
+  'header.yourName': 'Il tuo nome',
+
+  'controls.muteMicrophone': 'Disattiva il microfono',
+  'controls.unmuteMicrophone': 'Attiva il microfono',
+  'controls.muteSpeaker': 'Disattiva l’audio',
+  'controls.unmuteSpeaker': 'Attiva l’audio',
+  'controls.turnOnCamera': 'Accendi la fotocamera',
+  'controls.turnOffCamera': 'Spegni la fotocamera',
+  'controls.shareScreen': 'Condividi lo schermo',
+  'controls.stopSharingScreen': 'Interrompi la condivisione dello schermo',
+  'controls.recordSession': 'Registra la sessione',
+  'controls.stopRecording': 'Interrompi ed esporta la registrazione',
+  'controls.connect': 'Connetti',
+  'controls.disconnect': 'Disconnetti',
+  'controls.connecting': 'Connessione...',
+  'controls.reconnecting': 'Riconnessione...',
+  'controls.ready': 'Pronto',
+  'controls.holdToTalk': 'Tieni premuto spazio per parlare',
+  'controls.enableGrounding': 'Attiva la ricerca Google',
+  'controls.disableGrounding': 'Disattiva la ricerca Google',
+  'controls.answerWithText': 'Rispondi solo con il testo',
+  'controls.answerWithVoice': 'Rispondi a voce',
+  'controls.messagePlaceholder': 'Scrivi un messaggio…',
+  'controls.sendMessage': 'Invia messaggio',
+  'conversation.idle': 'Connesso',
+  'conversation.user-speaking': 'In ascolto',
+  'conversation.waiting': 'Sta pensando…',
+  'conversation.model-speaking': 'Sta parlando',
+  'conversation.interrupted': 'Interrotto',
+
+  'settings.intro':
+    'Questo semplice strumento ti permette di creare, provare e chiacchierare al volo con personaggi IA personalizzati.',
+  'settings.optionalInfo':
+    'Queste informazioni facoltative rendono l’esperienza più divertente:',
+  'settings.yourName': 'Il tuo nome',
+  'settings.namePlaceholder': 'Come vuoi essere chiamato?',
+  'settings.yourInfo': 'Su di te',
+  'settings.infoPlaceholder':
+    'Cose che dovremmo sapere su di te… Gusti, hobby, interessi, film, libri, serie e piatti preferiti, ecc.',
+  'settings.microphone': 'Microfono',
+  'settings.microphoneNumber': 'Microfono {number}',
+  'settings.systemDefault': 'Predefinito di sistema',
+  'settings.echoCancellation': 'Cancellazione dell’eco',
+  'settings.noiseSuppression': 'Riduzione del rumore',
+  'settings.autoGainControl': 'Controllo automatico del guadagno',
+  'settings.whenYouTalk': 'Quando parli',
+  'settings.turnDetection.server': 'Automatico (server)',
+  'settings.turnDetection.client': 'Automatico (nel browser)',
+  'settings.turnDetection.push-to-talk':
+    'Premi per parlare (tieni premuto spazio)',
+  'settings.speaker': 'Altoparlante',
+  'settings.speakerNumber': 'Altoparlante {number}',
+  'settings.volume': 'Volume',
+  'settings.whenYouInterrupt': 'Quando interrompi',
+  'settings.fadeNone': 'Ferma subito',
+  'settings.fadeShort': 'Dissolvenza breve',
+  'settings.fadeMedium': 'Dissolvenza media',
+  'settings.fadeLong': 'Dissolvenza lunga',
+  'settings.videoFps': 'Fotogrammi al secondo di fotocamera e schermo',
+  'settings.systemInstructions': 'Istruzioni di sistema',
+  'settings.resetToDefault': 'Ripristina predefinito',
+  'settings.customVariables': 'Variabili personalizzate',
+  'settings.newVariable': 'Nome della nuova variabile',
+  'settings.addVariable': 'Aggiungi variabile',
+  'settings.removeVariable': 'Rimuovi variabile',
+  'settings.previewWith': 'Anteprima con {name}',
+  'settings.letsGo': 'Andiamo!',
+
+  'agent.name': 'Nome',
+  'agent.templateSection': 'Modello delle istruzioni di sistema',
+  'agent.ownTemplate': 'Usa un modello proprio invece di quello predefinito',
+  'agent.customColor': 'Colore personalizzato',
+  'agent.eyeSpacing': 'Distanza degli occhi',
+  'agent.eyeSize': 'Dimensione degli occhi',
+  'agent.mouthWidth': 'Larghezza della bocca',
+  'agent.background': 'Sfondo',
+  'agent.background.circle': 'Cerchio',
+  'agent.background.rounded': 'Arrotondato',
+  'agent.background.hexagon': 'Esagono',
+  'agent.accessory.glasses': 'Occhiali',
+  'agent.accessory.hat': 'Cappello',
+  'agent.accessory.mustache': 'Baffi',
+  'agent.voice': 'Voce',
+  'agent.language': 'Lingua',
+  'agent.automatic': 'Automatica',
+  'agent.avatar': 'Avatar',
+  'agent.avatar.basic': 'Classico',
+  'agent.avatar.pixel': 'Pixel art',
+  'agent.avatar.resolution': 'Pixel in larghezza',
+  'agent.avatar.resolution.chunky': 'Grosso',
+  'agent.avatar.resolution.medium': 'Medio',
+  'agent.avatar.resolution.fine': 'Fine',
+  'agent.volume': 'Volume',
+  'agent.tools': 'Strumenti',
+  'agent.export': 'Esporta',
+  'agent.copyShareLink': 'Copia il link di condivisione',
+  'agent.linkCopied': 'Link copiato',
+  'agent.resetToDefault': 'Ripristina predefinito',
+  'agent.letsGo': 'Andiamo!',
+
+  'tool.get_current_time': 'Comunica all’agente la tua data e ora locali',
+  'tool.set_expression': 'Permette all’agente di cambiare espressione',
+
+  'personality.label': 'Personalità',
+  'personality.builder': 'Editor guidato',
+  'personality.raw': 'Testo libero',
+  'personality.role': 'Ruolo',
+  'personality.rolePlaceholder': 'Chi sono? Qual è il mio scopo?',
+  'personality.speakingStyle': 'Modo di parlare',
+  'personality.speakingStylePlaceholder':
+    'Come parlo? Ad es. rilassato, pieno di slang',
+  'personality.wordLimit': 'Limite di parole',
+  'personality.noLimit': 'Nessun limite',
+  'personality.knowledge': 'Conoscenze',
+  'personality.knowledgePlaceholder':
+    'Di cosa so molto? Un argomento per riga',
+  'personality.catchphrases': 'Tormentoni',
+  'personality.catchphrasesPlaceholder': 'Una frase per riga',
+  'personality.topicsToAvoid': 'Argomenti da evitare',
+  'personality.topicsToAvoidPlaceholder': 'Un argomento per riga',
+  'personality.examples': 'Scambi di esempio',
+  'personality.userSays': 'L’utente dice…',
+  'personality.agentAnswers': 'E io rispondo…',
+  'personality.removeExample': 'Rimuovi esempio',
+  'personality.addExample': 'Aggiungi esempio',
+  'personality.rawPlaceholder':
+    'Come dovrei comportarmi? Qual è il mio scopo? Come descriveresti la mia personalità?',
+  'personality.preview': 'Anteprima delle istruzioni di sistema',
+
+  'template.variableHint': 'inserisce una variabile',
+  'template.sectionHint': 'mostra il testo solo se la variabile ha un valore',
+  'template.customVariable': 'Variabile personalizzata',
+
+  'panel.title': 'Dibattito',
+  'panel.intro': 'Scegli da {min} a {max} ChatterBot che parlino tra loro.',
+  'panel.turns': 'Turni',
+  'panel.policy.round-robin': 'A turno',
+  'panel.policy.random': 'A caso',
+  'panel.start': 'Avvia il dibattito',
+  'panel.starting': 'Avvio…',
+  'panel.startFailed': 'Non è stato possibile avviare il dibattito. {reason}',
+  'panel.end': 'Termina il dibattito',
+
+  'preset.proper-paul': '🫖 Proper Paul',
+  'preset.chic-charlotte': '👠 Chic Charlotte',
+  'preset.chef-shane': '🍳 Chef Shane',
+  'preset.passport-penny': '✈️ Passport Penny',
+  'preset.news-agent': '📰 Agente delle notizie',
+
+  'error.generic': 'Qualcosa è andato storto. Riprova.',
+  'error.quota':
+    'L’API Gemini Live in AI Studio ha una quota gratuita giornaliera limitata. Torna domani per continuare.',
+  'error.close': 'Chiudi',
+};
+
+const pt: Messages = {
+  'header.edit': 'Editar',
+  'header.panel': 'Debate',
+  'header.exitPanel': 'Sair do debate',
+  'header.sharedWithYou': 'Compartilhado com você',
+  'header.dismiss': 'Dispensar',
+  'header.presets': 'Modelos',
+  'header.yourChatterBots': 'Seus ChatterBots',
+  'header.noneYet': 'Nenhum ainda.',
+  'header.newChatterBot': 'Novo ChatterBot',
+  'header.import': 'Importar',
+  'header.exportAll': 'Exportar todos',
+  'header.invalidJson': 'Este arquivo não é um JSON válido.',
+  'header.invalidShareLink':
+    'Não foi possível ler o link compartilhado. {reason}',
+  'header.yourName': 'Seu nome',
+
+  'controls.muteMicrophone': 'Desativar o microfone',
+  'controls.unmuteMicrophone': 'Ativar o microfone',
+  'controls.muteSpeaker': 'Desativar o som',
+  'controls.unmuteSpeaker': 'Ativar o som',
+  'controls.turnOnCamera': 'Ligar a câmera',
+  'controls.turnOffCamera': 'Desligar a câmera',
+  'controls.shareScreen': 'Compartilhar a tela',
+  'controls.stopSharingScreen': 'Parar de compartilhar a tela',
+  'controls.recordSession': 'Gravar a sessão',
+  'controls.stopRecording': 'Parar e exportar a gravação',
+  'controls.connect': 'Conectar',
+  'controls.disconnect': 'Desconectar',
+  'controls.connecting': 'Conectando...',
+  'controls.reconnecting': 'Reconectando...',
+  'controls.ready': 'Pronto',
+  'controls.holdToTalk': 'Segure a barra de espaço para falar',
+  'controls.enableGrounding': 'Ativar a Pesquisa Google',
+  'controls.disableGrounding': 'Desativar a Pesquisa Google',
+  'controls.answerWithText': 'Responder só com texto',
+  'controls.answerWithVoice': 'Responder com voz',
+  'controls.messagePlaceholder': 'Digite uma mensagem…',
+  'controls.sendMessage': 'Enviar mensagem',
+  'conversation.idle': 'Conectado',
+  'conversation.user-speaking': 'Ouvindo',
+  'conversation.waiting': 'Pensando…',
+  'conversation.model-speaking': 'Falando',
+  'conversation.interrupted': 'Interrompido',
+
+  'settings.intro':
+    'Esta ferramenta simples permite criar, testar e bater papo na hora com personagens de IA personalizados.',
+  'settings.optionalInfo':
+    'Estas informações opcionais deixam a experiência mais divertida:',
+  'settings.yourName': 'Seu nome',
+  'settings.namePlaceholder': 'Como você gosta de ser chamado?',
+  'settings.yourInfo': 'Sobre você',
+  'settings.infoPlaceholder':
+    'O que devemos saber sobre você… Gostos, hobbies, interesses, filmes, livros, séries e comidas favoritas etc.',
+  'settings.microphone': 'Microfone',
+  'settings.microphoneNumber': 'Microfone {number}',
+  'settings.systemDefault': 'Padrão do sistema',
+  'settings.echoCancellation': 'Cancelamento de eco',
+  'settings.noiseSuppression': 'Supressão de ruído',
+  'settings.autoGainControl': 'Controle automático de ganho',
+  'settings.whenYouTalk': 'Quando você fala',
+  'settings.turnDetection.server': 'Automático (servidor)',
+  'settings.turnDetection.client': 'Automático (no navegador)',
+  'settings.turnDetection.push-to-talk':
+    'Pressione para falar (segure a barra de espaço)',
+  'settings.speaker': 'Alto-falante',
+  'settings.speakerNumber': 'Alto-falante {number}',
+  'settings.volume': 'Volume',
+  'settings.whenYouInterrupt': 'Quando você interrompe',
+  'settings.fadeNone': 'Parar imediatamente',
+  'settings.fadeShort': 'Fade curto',
+  'settings.fadeMedium': 'Fade médio',
+  'settings.fadeLong': 'Fade longo',
+  'settings.videoFps': 'Quadros por segundo da câmera e da tela',
+  'settings.systemInstructions': 'Instruções do sistema',
+  'settings.resetToDefault': 'Restaurar padrão',
+  'settings.customVariables': 'Variáveis personalizadas',
+  'settings.newVariable': 'Nome da nova variável',
+  'settings.addVariable': 'Adicionar variável',
+  'settings.removeVariable': 'Remover variável',
+  'settings.previewWith': 'Visualizar com {name}',
+  'settings.letsGo': 'Vamos lá!',
+
+  'agent.name': 'Nome',
+  'agent.templateSection': 'Modelo das instruções do sistema',
+  'agent.ownTemplate': 'Usar um modelo próprio em vez do padrão',
+  'agent.customColor': 'Cor personalizada',
+  'agent.eyeSpacing': 'Distância dos olhos',
+  'agent.eyeSize': 'Tamanho dos olhos',
+  'agent.mouthWidth': 'Largura da boca',
+  'agent.background': 'Fundo',
+  'agent.background.circle': 'Círculo',
+  'agent.background.rounded': 'Arredondado',
+  'agent.background.hexagon': 'Hexágono',
+  'agent.accessory.glasses': 'Óculos',
+  'agent.accessory.hat': 'Chapéu',
+  'agent.accessory.mustache': 'Bigode',
+  'agent.voice': 'Voz',
+  'agent.language': 'Idioma',
+  'agent.automatic': 'Automático',
+  'agent.avatar': 'Avatar',
+  'agent.avatar.basic': 'Clássico',
+  'agent.avatar.pixel': 'Pixel art',
+  'agent.avatar.resolution': 'Pixels na largura',
+  'agent.avatar.resolution.chunky': 'Grosso',
+  'agent.avatar.resolution.medium': 'Médio',
+  'agent.avatar.resolution.fine': 'Fino',
+  'agent.volume': 'Volume',
+  'agent.tools': 'Ferramentas',
+  'agent.export': 'Exportar',
+  'agent.copyShareLink': 'Copiar link de compartilhamento',
+  'agent.linkCopied': 'Link copiado',
+  'agent.resetToDefault': 'Restaurar padrão',
+  'agent.letsGo': 'Vamos lá!',
+
+  'tool.get_current_time': 'Informa ao agente sua data e hora locais',
+  'tool.set_expression': 'Permite que o agente mude sua expressão facial',
+
+  'personality.label': 'Personalidade',
+  'personality.builder': 'Assistente',
+  'personality.raw': 'Texto livre',
+  'personality.role': 'Papel',
+  'personality.rolePlaceholder': 'Quem sou eu? Qual é o meu propósito?',
+  'personality.speakingStyle': 'Jeito de falar',
+  'personality.speakingStylePlaceholder':
+    'Como eu falo? Ex.: descontraído, cheio de gírias',
+  'personality.wordLimit': 'Limite de palavras',
+  'personality.noLimit': 'Sem limite',
+  'personality.knowledge': 'Conhecimento',
+  'personality.knowledgePlaceholder':
+    'Sobre o que eu sei muito? Um assunto por linha',
+  'personality.catchphrases': 'Bordões',
+  'personality.catchphrasesPlaceholder': 'Uma frase por linha',
+  'personality.topicsToAvoid': 'Assuntos a evitar',
+  'personality.topicsToAvoidPlaceholder': 'Um assunto por linha',
+  'personality.examples': 'Diálogos de exemplo',
+  'personality.userSays': 'O usuário diz…',
+  'personality.agentAnswers': 'E eu respondo…',
+  'personality.removeExample': 'Remover exemplo',
+  'personality.addExample': 'Adicionar exemplo',
+  'personality.rawPlaceholder':
+    'Como devo agir? Qual é o meu propósito? Como você descreveria minha personalidade?',
+  'personality.preview': 'Visualizar as instruções do sistema',
+
+  'template.variableHint': 'insere uma variável',
+  'template.sectionHint': 'mostra o texto só quando a variável tem valor',
+  'template.customVariable': 'Variável personalizada',
+
+  'panel.title': 'Debate',
+  'panel.intro':
+    'Escolha de {min} a {max} ChatterBots para conversarem entre si.',
+  'panel.turns': 'Turnos',
+  'panel.policy.round-robin': 'Em rodízio',
+  'panel.policy.random': 'Aleatório',
+  'panel.start': 'Iniciar o debate',
+  'panel.starting': 'Iniciando…',
+  'panel.startFailed': 'Não foi possível iniciar o debate. {reason}',
+  'panel.end': 'Encerrar o debate',
+
+  'preset.proper-paul': '🫖 Proper Paul',
+  'preset.chic-charlotte': '👠 Chic Charlotte',
+  'preset.chef-shane': '🍳 Chef Shane',
+  'preset.passport-penny': '✈️ Passport Penny',
+  'preset.news-agent': '📰 Agente de notícias',
+
+  'error.generic': 'Algo deu errado. Tente novamente.',
+  'error.quota':
+    'A API Gemini Live no AI Studio tem uma cota gratuita diária limitada. Volte amanhã para continuar.',
+  'error.close': 'Fechar',
+};
+
+const hi: Messages = {
+  'header.edit': 'संपादित करें',
+  'header.panel': 'पैनल',
+  'header.exitPanel': 'पैनल से बाहर निकलें',
+  'header.sharedWithYou': 'आपके साथ साझा किए गए',
+  'header.dismiss': 'हटाएँ',
+  'header.presets': 'प्रीसेट',
+  'header.yourChatterBots': 'आपके ChatterBots',
+  'header.noneYet': 'अभी तक कोई नहीं।',
+  'header.newChatterBot': 'नया ChatterBot',
+  'header.import': 'आयात करें',
+  'header.exportAll': 'सभी निर्यात करें',
+  'header.invalidJson': 'यह फ़ाइल मान्य JSON नहीं है।',
+  'header.invalidShareLink': 'साझा लिंक पढ़ा नहीं जा सका। {reason}',
+  'header.yourName': 'आपका नाम',
+
+  'controls.muteMicrophone': 'माइक्रोफ़ोन म्यूट करें',
+  'controls.unmuteMicrophone': 'माइक्रोफ़ोन अनम्यूट करें',
+  'controls.muteSpeaker': 'स्पीकर म्यूट करें',
+  'controls.unmuteSpeaker': 'स्पीकर अनम्यूट करें',
+  'controls.turnOnCamera': 'कैमरा चालू करें',
+  'controls.turnOffCamera': 'कैमरा बंद करें',
+  'controls.shareScreen': 'स्क्रीन साझा करें',
+  'controls.stopSharingScreen': 'स्क्रीन साझा करना बंद करें',
+  'controls.recordSession': 'सत्र रिकॉर्ड करें',
+  'controls.stopRecording': 'रिकॉर्डिंग रोकें और निर्यात करें',
+  'controls.connect': 'कनेक्ट करें',
+  'controls.disconnect': 'डिस्कनेक्ट करें',
+  'controls.connecting': 'कनेक्ट हो रहा है...',
+  'controls.reconnecting': 'फिर से कनेक्ट हो रहा है...',
+  'controls.ready': 'तैयार',
+  'controls.holdToTalk': 'बोलने के लिए स्पेस दबाए रखें',
+  'controls.enableGrounding': 'Google खोज चालू करें',
+  'controls.disableGrounding': 'Google खोज बंद करें',
+  'controls.answerWithText': 'केवल टेक्स्ट में जवाब दें',
+  'controls.answerWithVoice': 'आवाज़ में जवाब दें',
+  'controls.messagePlaceholder': 'संदेश लिखें…',
+  'controls.sendMessage': 'संदेश भेजें',
+  'conversation.idle': 'कनेक्टेड',
+  'conversation.user-speaking': 'सुन रहा है',
+  'conversation.waiting': 'सोच रहा है…',
+  'conversation.model-speaking': 'बोल रहा है',
+  'conversation.interrupted': 'बाधित',
+
+  'settings.intro':
+    'यह एक आसान टूल है जिससे आप कस्टम AI किरदार तुरंत बना सकते हैं, आज़मा सकते हैं और उनसे गपशप कर सकते हैं।',
+  'settings.optionalInfo':
+    'यह वैकल्पिक जानकारी जोड़ने से अनुभव और मज़ेदार बनता है:',
+  'settings.yourName': 'आपका नाम',
+  'settings.namePlaceholder': 'आपको किस नाम से बुलाया जाना पसंद है?',
+  'settings.yourInfo': 'आपके बारे में',
+  'settings.infoPlaceholder':
+    'आपके बारे में हमें क्या पता होना चाहिए… पसंद, नापसंद, शौक, रुचियाँ, पसंदीदा फ़िल्में, किताबें, शो, खाना आदि।',
+  'settings.microphone': 'माइक्रोफ़ोन',
+  'settings.microphoneNumber': 'माइक्रोफ़ोन {number}',
+  'settings.systemDefault': 'सिस्टम डिफ़ॉल्ट',
+  'settings.echoCancellation': 'इको कैंसलेशन',
+  'settings.noiseSuppression': 'शोर कम करना',
+  'settings.autoGainControl': 'स्वचालित गेन नियंत्रण',
+  'settings.whenYouTalk': 'जब आप बोलते हैं',
+  'settings.turnDetection.server': 'स्वचालित (सर्वर)',
+  'settings.turnDetection.client': 'स्वचालित (ब्राउज़र में)',
+  'settings.turnDetection.push-to-talk': 'दबाकर बोलें (स्पेस दबाए रखें)',
+  'settings.speaker': 'स्पीकर',
+  'settings.speakerNumber': 'स्पीकर {number}',
+  'settings.volume': 'आवाज़',
+  'settings.whenYouInterrupt': 'जब आप बीच में बोलते हैं',
+  'settings.fadeNone': 'तुरंत रोकें',
+  'settings.fadeShort': 'छोटा फ़ेड',
+  'settings.fadeMedium': 'मध्यम फ़ेड',
+  'settings.fadeLong': 'लंबा फ़ेड',
+  'settings.videoFps': 'कैमरा और स्क्रीन के फ़्रेम प्रति सेकंड',
+  'settings.systemInstructions': 'सिस्टम निर्देश',
+  'settings.resetToDefault': 'डिफ़ॉल्ट पर रीसेट करें',
+  'settings.customVariables': 'कस्टम वैरिएबल',
+  'settings.newVariable': 'नए वैरिएबल का नाम',
+  'settings.addVariable': 'वैरिएबल जोड़ें',
+  'settings.removeVariable': 'वैरिएबल हटाएँ',
+  'settings.previewWith': '{name} के साथ पूर्वावलोकन',
+  'settings.letsGo': 'चलिए शुरू करें!',
+
+  'agent.name': 'नाम',
+  'agent.templateSection': 'सिस्टम निर्देशों का टेम्पलेट',
+  'agent.ownTemplate': 'डिफ़ॉल्ट की जगह अपना टेम्पलेट इस्तेमाल करें',
+  'agent.customColor': 'कस्टम रंग',
+  'agent.eyeSpacing': 'आँखों के बीच की दूरी',
+  'agent.eyeSize': 'आँखों का आकार',
+  'agent.mouthWidth': 'मुँह की चौड़ाई',
+  'agent.background': 'पृष्ठभूमि',
+  'agent.background.circle': 'गोला',
+  'agent.background.rounded': 'गोल कोने',
+  'agent.background.hexagon': 'षट्भुज',
+  'agent.accessory.glasses': 'चश्मा',
+  'agent.accessory.hat': 'टोपी',
+  'agent.accessory.mustache': 'मूँछ',
+  'agent.voice': 'आवाज़',
+  'agent.language': 'भाषा',
+  'agent.automatic': 'स्वचालित',
+  'agent.avatar': 'अवतार',
+  'agent.avatar.basic': 'क्लासिक',
+  'agent.avatar.pixel': 'पिक्सेल आर्ट',
+  'agent.avatar.resolution': 'चौड़ाई में पिक्सेल',
+  'agent.avatar.resolution.chunky': 'मोटे',
+  'agent.avatar.resolution.medium': 'मध्यम',
+  'agent.avatar.resolution.fine': 'बारीक',
+  'agent.volume': 'आवाज़',
+  'agent.tools': 'टूल',
+  'agent.export': 'निर्यात करें',
+  'agent.copyShareLink': 'साझा लिंक कॉपी करें',
+  'agent.linkCopied': 'लिंक कॉपी हो गया',
+  'agent.resetToDefault': 'डिफ़ॉल्ट पर रीसेट करें',
+  'agent.letsGo': 'चलिए शुरू करें!',
+
+  'tool.get_current_time': 'एजेंट को आपकी स्थानीय तारीख और समय बताता है',
+  'tool.set_expression': 'एजेंट को अपने चेहरे का भाव बदलने देता है',
+
+  'personality.label': 'व्यक्तित्व',
+  'personality.builder': 'बिल्डर',
+  'personality.raw': 'सादा टेक्स्ट',
+  'personality.role': 'भूमिका',
+  'personality.rolePlaceholder': 'मैं कौन हूँ? मेरा उद्देश्य क्या है?',
+  'personality.speakingStyle': 'बोलने का अंदाज़',
+  'personality.speakingStylePlaceholder':
+    'मैं कैसे बात करता हूँ? जैसे बेफ़िक्र, ढेर सारी बोलचाल की भाषा',
+  'personality.wordLimit': 'शब्द सीमा',
+  'personality.noLimit': 'कोई सीमा नहीं',
+  'personality.knowledge': 'ज्ञान',
+  'personality.knowledgePlaceholder':
+    'मुझे किस बारे में बहुत पता है? हर पंक्ति में एक विषय',
+  'personality.catchphrases': 'तकिया कलाम',
+  'personality.catchphrasesPlaceholder': 'हर पंक्ति में एक वाक्यांश',
+  'personality.topicsToAvoid': 'टालने वाले विषय',
+  'personality.topicsToAvoidPlaceholder': 'हर पंक्ति में एक विषय',
+  'personality.examples': 'उदाहरण बातचीत',
+  'personality.userSays': 'उपयोगकर्ता कहता है…',
+  'personality.agentAnswers': 'और मैं जवाब देता हूँ…',
+  'personality.removeExample': 'उदाहरण हटाएँ',
+  'personality.addExample': 'उदाहरण जोड़ें',
+  'personality.rawPlaceholder':
+    'मुझे कैसा व्यवहार करना चाहिए? मेरा उद्देश्य क्या है? आप मेरे व्यक्तित्व का वर्णन कैसे करेंगे?',
+  'personality.preview': 'सिस्टम निर्देशों का पूर्वावलोकन',
+
+  'template.variableHint': 'एक वैरिएबल डालता है',
+  'template.sectionHint': 'टेक्स्ट तभी दिखाता है जब वैरिएबल में मान हो',
+  'template.customVariable': 'कस्टम वैरिएबल',
+
+  'panel.title': 'पैनल',
+  'panel.intro': 'आपस में बात करने के लिए {min} से {max} ChatterBots चुनें।',
+  'panel.turns': 'बारियाँ',
+  'panel.policy.round-robin': 'बारी-बारी से',
+  'panel.policy.random': 'कोई भी',
+  'panel.start': 'पैनल शुरू करें',
+  'panel.starting': 'शुरू हो रहा है…',
+  'panel.startFailed': 'पैनल शुरू नहीं हो सका। {reason}',
+  'panel.end': 'पैनल समाप्त करें',
+
+  'preset.proper-paul': '🫖 Proper Paul',
+  'preset.chic-charlotte': '👠 Chic Charlotte',
+  'preset.chef-shane': '🍳 Chef Shane',
+  'preset.passport-penny': '✈️ Passport Penny',
+  'preset.news-agent': '📰 समाचार एजेंट',
+
+  'error.generic': 'कुछ गलत हो गया। कृपया फिर से कोशिश करें।',
+  'error.quota':
+    'AI Studio में Gemini Live API का मुफ़्त कोटा हर दिन सीमित है। जारी रखने के लिए कल वापस आएँ।',
+  'error.close': 'बंद करें',
+};
+
+const ja: Messages = {
+  'header.edit': '編集',
+  'header.panel': 'パネル',
+  'header.exitPanel': 'パネルを終了',
+  'header.sharedWithYou': '共有されたもの',
+  'header.dismiss': '閉じる',
+  'header.presets': 'プリセット',
+  'header.yourChatterBots': 'あなたの ChatterBot',
+  'header.noneYet': 'まだありません。',
+  'header.newChatterBot': '新しい ChatterBot',
+  'header.import': 'インポート',
+  'header.exportAll': 'すべてエクスポート',
+  'header.invalidJson': 'このファイルは有効な JSON ではありません。',
+  'header.invalidShareLink': '共有リンクを読み込めませんでした。{reason}',
+  'header.yourName': 'あなたの名前',
+
+  'controls.muteMicrophone': 'マイクをミュート',
+  'controls.unmuteMicrophone': 'マイクのミュートを解除',
+  'controls.muteSpeaker': 'スピーカーをミュート',
+  'controls.unmuteSpeaker': 'スピーカーのミュートを解除',
+  'controls.turnOnCamera': 'カメラをオン',
+  'controls.turnOffCamera': 'カメラをオフ',
+  'controls.shareScreen': '画面を共有',
+  'controls.stopSharingScreen': '画面の共有を停止',
+  'controls.recordSession': 'セッションを録音',
+  'controls.stopRecording': '録音を停止してエクスポート',
+  'controls.connect': '接続',
+  'controls.disconnect': '切断',
+  'controls.connecting': '接続中...',
+  'controls.reconnecting': '再接続中...',
+  'controls.ready': '準備完了',
+  'controls.holdToTalk': 'スペースキーを押している間話せます',
+  'controls.enableGrounding': 'Google 検索を有効にする',
+  'controls.disableGrounding': 'Google 検索を無効にする',
+  'controls.answerWithText': 'テキストのみで回答',
+  'controls.answerWithVoice': '音声で回答',
+  'controls.messagePlaceholder': 'メッセージを入力…',
+  'controls.sendMessage': 'メッセージを送信',
+  'conversation.idle': '接続中',
+  'conversation.user-speaking': '聞いています',
+  'conversation.waiting': '考えています…',
+  'conversation.model-speaking': '話しています',
+  'conversation.interrupted': '中断されました',
+
+  'settings.intro':
+    'オリジナルの AI キャラクターをその場で作って試し、おしゃべりできるシンプルなツールです。',
+  'settings.optionalInfo':
+    '以下の任意の情報を追加すると、もっと楽しくなります:',
+  'settings.yourName': 'あなたの名前',
+  'settings.namePlaceholder': 'どう呼ばれたいですか？',
+  'settings.yourInfo': 'あなたについて',
+  'settings.infoPlaceholder':
+    'あなたについて知っておくべきこと… 好きなもの、嫌いなもの、趣味、興味、好きな映画、本、番組、食べ物など。',
+  'settings.microphone': 'マイク',
+  'settings.microphoneNumber': 'マイク {number}',
+  'settings.systemDefault': 'システムのデフォルト',
+  'settings.echoCancellation': 'エコーキャンセル',
+  'settings.noiseSuppression': 'ノイズ抑制',
+  'settings.autoGainControl': '自動ゲイン調整',
+  'settings.whenYouTalk': '話すとき',
+  'settings.turnDetection.server': '自動（サーバー）',
+  'settings.turnDetection.client': '自動（ブラウザ内）',
+  'settings.turnDetection.push-to-talk':
+    'プッシュトゥトーク（スペースを長押し）',
+  'settings.speaker': 'スピーカー',
+  'settings.speakerNumber': 'スピーカー {number}',
+  'settings.volume': '音量',
+  'settings.whenYouInterrupt': '話をさえぎったとき',
+  'settings.fadeNone': 'すぐに停止',
+  'settings.fadeShort': '短いフェード',
+  'settings.fadeMedium': '普通のフェード',
+  'settings.fadeLong': '長いフェード',
+  'settings.videoFps': 'カメラと画面のフレームレート',
+  'settings.systemInstructions': 'システム指示',
+  'settings.resetToDefault': 'デフォルトに戻す',
+  'settings.customVariables': 'カスタム変数',
+  'settings.newVariable': '新しい変数の名前',
+  'settings.addVariable': '変数を追加',
+  'settings.removeVariable': '変数を削除',
+  'settings.previewWith': '{name} でプレビュー',
+  'settings.letsGo': 'はじめよう！',
+
+  'agent.name': '名前',
+  'agent.templateSection': 'システム指示のテンプレート',
+  'agent.ownTemplate': 'デフォルトの代わりに独自のテンプレートを使う',
+  'agent.customColor': 'カスタムカラー',
+  'agent.eyeSpacing': '目の間隔',
+  'agent.eyeSize': '目の大きさ',
+  'agent.mouthWidth': '口の幅',
+  'agent.background': '背景',
+  'agent.background.circle': '円',
+  'agent.background.rounded': '角丸',
+  'agent.background.hexagon': '六角形',
+  'agent.accessory.glasses': 'メガネ',
+  'agent.accessory.hat': '帽子',
+  'agent.accessory.mustache': '口ひげ',
+  'agent.voice': '声',
+  'agent.language': '言語',
+  'agent.automatic': '自動',
+  'agent.avatar': 'アバター',
+  'agent.avatar.basic': 'クラシック',
+  'agent.avatar.pixel': 'ピクセルアート',
+  'agent.avatar.resolution': '横のピクセル数',
+  'agent.avatar.resolution.chunky': '粗い',
+  'agent.avatar.resolution.medium': '普通',
+  'agent.avatar.resolution.fine': '細かい',
+  'agent.volume': '音量',
+  'agent.tools': 'ツール',
+  'agent.export': 'エクスポート',
+  'agent.copyShareLink': '共有リンクをコピー',
+  'agent.linkCopied': 'リンクをコピーしました',
+  'agent.resetToDefault': 'デフォルトに戻す',
+  'agent.letsGo': 'はじめよう！',
+
+  'tool.get_current_time': 'エージェントに現在の日時を伝えます',
+  'tool.set_expression': 'エージェントが表情を変えられるようにします',
+
+  'personality.label': '性格',
+  'personality.builder': 'ビルダー',
+  'personality.raw': 'テキスト',
+  'personality.role': '役割',
+  'personality.rolePlaceholder': '私は誰？ 私の目的は？',
+  'personality.speakingStyle': '話し方',
+  'personality.speakingStylePlaceholder':
+    'どんな話し方？ 例: のんびり、スラングだらけ',
+  'personality.wordLimit': '単語数の上限',
+  'personality.noLimit': '上限なし',
+  'personality.knowledge': '知識',
+  'personality.knowledgePlaceholder': '詳しい分野は？ 1 行に 1 つ',
+  'personality.catchphrases': '口ぐせ',
+  'personality.catchphrasesPlaceholder': '1 行に 1 フレーズ',
+  'personality.topicsToAvoid': '避ける話題',
+  'personality.topicsToAvoidPlaceholder': '1 行に 1 つの話題',
+  'personality.examples': '会話の例',
+  'personality.userSays': 'ユーザーの発言…',
+  'personality.agentAnswers': '私の答え…',
+  'personality.removeExample': '例を削除',
+  'personality.addExample': '例を追加',
+  'personality.rawPlaceholder':
+    'どう振る舞えばいい？ 私の目的は？ 私の性格をどう表現しますか？',
+  'personality.preview': 'システム指示をプレビュー',
+
+  'template.variableHint': '変数を挿入します',
+  'template.sectionHint': '変数に値があるときだけテキストを表示します',
+  'template.customVariable': 'カスタム変数',
+
+  'panel.title': 'パネル',
+  'panel.intro': '互いに話す ChatterBot を {min}〜{max} 体選んでください。',
+  'panel.turns': 'ターン数',
+  'panel.policy.round-robin': '順番に',
+  'panel.policy.random': 'ランダム',
+  'panel.start': 'パネルを開始',
+  'panel.starting': '開始中…',
+  'panel.startFailed': 'パネルを開始できませんでした。{reason}',
+  'panel.end': 'パネルを終了',
+
+  'preset.proper-paul': '🫖 Proper Paul',
+  'preset.chic-charlotte': '👠 Chic Charlotte',
+  'preset.chef-shane': '🍳 Chef Shane',
+  'preset.passport-penny': '✈️ Passport Penny',
+  'preset.news-agent': '📰 ニュースエージェント',
+
+  'error.generic': '問題が発生しました。もう一度お試しください。',
+  'error.quota':
+    'AI Studio の Gemini Live API の無料枠は 1 日あたりの上限があります。明日また続けてください。',
+  'error.close': '閉じる',
+};
+
+// UI translations by base language, English is the fallback
+const MESSAGES: Record<string, Messages> = {
+  en,
+  de,
+  es,
+  fr,
+  it,
+  pt,
+  hi,
+  ja,
+};
+
+/**
+ * Looks up a UI string in the base language of a language code such as
+ * `de-DE`, replacing `{name}` placeholders with the given values.
+ */
+export function translate(
+  language: string | undefined,
+  key: MessageKey,
+  values: Record<string, string | number> = {}
+): string {
+  const messages = MESSAGES[language?.split('-')[0] || 'en'] || en;
+  return messages[key].replace(/\{(\w+)\}/g, (placeholder, name) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
+
+/**
+ * @returns A function translating UI strings into the current agent's
+ * language
+ */
+export function useTranslation() {
+  const language = useAgent(state => state.current.language);
+  return useCallback(
+    (key: MessageKey, values?: Record<string, string | number>) =>
+      translate(language, key, values),
+    [language]
+  );
+}
+
+function isMessageKey(key: string): key is MessageKey {
+  return key in en;
+}
+
+/**
+ * @returns A function giving the name to show for an agent. Presets that
+ * still have their original name are translated too.
+ */
+export function useAgentName() {
+  const t = useTranslation();
+  return useCallback(
+    ({ id, name }: Pick<Agent, 'id' | 'name'>) => {
+      const key = `preset.${id}`;
+      return isMessageKey(key) && en[key] === name ? t(key) : name;
+    },
+    [t]
+  );
+}
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LiveConnectConfig, Modality, Tool } from '@google/genai';
+import { EXPRESSION_TAG_INSTRUCTIONS } from './expressions';
+import { Agent } from './presets/agents';
+import { createSystemInstructions } from './prompts';
+import { PromptSettings, User } from './state';
+import { createFunctionDeclarations } from './tools';
+
+/**
+ * Who decides when the user starts and stops talking: the server's voice
+ * activity detection, the one running in the browser, or the user holding
+ * the push-to-talk key.
+ */
+export type TurnDetection = 'server' | 'client' | 'push-to-talk';
+
+export const TURN_DETECTION_MODES: TurnDetection[] = [
+  'server',
+  'client',
+  'push-to-talk',
+];
+
+export type LiveConfigOptions = {
+  // Whether to let the model search the web with Google Search
+  useGrounding?: boolean;
+  // Appended to the agent's system instructions
+  extraInstructions?: string;
+  // Default template and custom variables of the system instructions
+  promptSettings?: PromptSettings;
+  // Whether the model answers in text instead of speech
+  textOnly?: boolean;
+  turnDetection?: TurnDetection;
+};
+
+/**
+ * Creates the Live API config for a conversation with an agent.
+ */
+export function createLiveConfig(
+  agent: Agent,
+  user: User,
+  {
+    useGrounding = false,
+    extraInstructions,
+    promptSettings,
+    textOnly = false,
+    turnDetection = 'server',
+  }: LiveConfigOptions = {}
+): LiveConnectConfig {
+  const tools: Tool[] = [];
+  if (useGrounding) {
+    tools.push({ googleSearch: {} });
+  }
+  if (agent.tools?.length) {
+    tools.push({
+      functionDeclarations: createFunctionDeclarations(agent.tools),
+    });
+  }
+
+  let instructions = createSystemInstructions(agent, user, promptSettings);
+  if (textOnly) {
+    instructions += `\n\n${EXPRESSION_TAG_INSTRUCTIONS}`;
+  }
+
+  return {
+    ...(textOnly
+      ? { responseModalities: [Modality.TEXT] }
+      : {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: agent.voice },
+            },
+            ...(agent.language && { languageCode: agent.language }),
+          },
+          outputAudioTranscription: {},
+        }),
+    inputAudioTranscription: {},
+    // Activity is signalled explicitly unless the server detects it
+    ...(turnDetection !== 'server' && {
+      realtimeInputConfig: {
+        automaticActivityDetection: { disabled: true },
+      },
+    }),
+    systemInstruction: {
+      parts: [
+        {
+          text: extraInstructions
+            ? `${instructions}\n\n${extraInstructions}`
+            : instructions,
+        },
+      ],
+    },
+    ...(tools.length && { tools }),
+  };
+}
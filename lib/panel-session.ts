@@ -0,0 +1,342 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LiveConnectConfig } from '@google/genai';
+import EventEmitter from 'eventemitter3';
+import { AudioStreamer, DEFAULT_FADE_OUT_TIME } from './audio-streamer';
+import { Expression, expressionEvents } from './expressions';
+import { GenAILiveClient } from './genai-live-client';
+import { Agent } from './presets/agents';
+import { ToolDispatcher } from './tools';
+import { audioContext } from './utils';
+import VolMeterWorket from './worklets/vol-meter';
+
+/**
+ * Decides which panelist speaks next once the current speaker is done.
+ */
+export type ModeratorPolicy = 'round-robin' | 'random';
+
+export const MODERATOR_POLICIES: ModeratorPolicy[] = ['round-robin', 'random'];
+
+export const MIN_PANELISTS = 2;
+export const MAX_PANELISTS = 4;
+
+export function chooseNextSpeaker(
+  policy: ModeratorPolicy,
+  agentIds: string[],
+  lastSpeakerId: string | null
+): string {
+  const lastIndex = lastSpeakerId ? agentIds.indexOf(lastSpeakerId) : -1;
+  if (policy === 'random') {
+    // Anyone but the last speaker
+    const candidates = agentIds.filter(id => id !== lastSpeakerId);
+    return candidates[Math.floor(Math.random() * candidates.length)];
+  }
+  return agentIds[(lastIndex + 1) % agentIds.length];
+}
+
+type Panelist = {
+  agent: Agent;
+  client: GenAILiveClient;
+  streamer?: AudioStreamer;
+  // When the audio scheduled so far finishes, on the streamer's clock
+  speechEndTime: number;
+};
+
+export type PanelOutput = {
+  deviceId?: string;
+  volume: number;
+  muted: boolean;
+  fadeOutTime?: number;
+};
+
+type PanelSessionEvents = {
+  // Emitted when the floor passes to another panelist, or null when the
+  // panel has ended
+  speaker: (agentId: string | null) => void;
+  // Emitted with the output volume of each panelist
+  volume: (agentId: string, volume: number) => void;
+  // Emitted when a panelist changes its expression with a tool call
+  expression: (agentId: string, expression: Expression) => void;
+  // Emitted when a panelist finished a turn
+  turn: (agentId: string, text: string) => void;
+  // Emitted when the panel stops
+  close: () => void;
+};
+
+/**
+ * Runs a conversation between several agents. Every agent has its own live
+ * session; the moderator policy hands the floor from one to the next and
+ * relays what was said to the others as text.
+ */
+export class PanelSession {
+  private panelists: Map<string, Panelist> = new Map();
+  private emitter = new EventEmitter<PanelSessionEvents>();
+  private activeSpeakerId: string | null = null;
+  private turnText = '';
+  private userText = '';
+  private turnCount = 0;
+  private handOffTimeout?: number;
+  private cleanups: Array<() => void> = [];
+  private output: PanelOutput = { volume: 1, muted: false };
+
+  public running = false;
+
+  constructor(
+    private apiKey: string,
+    private agents: Agent[],
+    private policy: ModeratorPolicy,
+    private maxTurns = 20
+  ) {}
+
+  on<K extends keyof PanelSessionEvents>(
+    event: K,
+    listener: PanelSessionEvents[K]
+  ): this {
+    this.emitter.on(event, listener as any);
+    return this;
+  }
+
+  off<K extends keyof PanelSessionEvents>(
+    event: K,
+    listener?: PanelSessionEvents[K]
+  ): this {
+    this.emitter.off(event, listener as any);
+    return this;
+  }
+
+  private emit<K extends keyof PanelSessionEvents>(
+    event: K,
+    ...args: Parameters<PanelSessionEvents[K]>
+  ) {
+    this.emitter.emit(event, ...(args as any));
+  }
+
+  /**
+   * Connects every panelist and gives the floor to the first speaker.
+   * Rejects, with the panel stopped, if a panelist fails to connect.
+   * @param createConfig - Creates the session config for a panelist
+   */
+  async start(createConfig: (agent: Agent) => LiveConnectConfig) {
+    if (this.running) return;
+    this.running = true;
+    try {
+      await this.connectPanelists(createConfig);
+    } catch (error) {
+      this.stop();
+      throw error;
+    }
+  }
+
+  private async connectPanelists(
+    createConfig: (agent: Agent) => LiveConnectConfig
+  ) {
+    for (const agent of this.agents) {
+      const panelist: Panelist = {
+        agent,
+        client: new GenAILiveClient(this.apiKey),
+        speechEndTime: 0,
+      };
+      this.panelists.set(agent.id, panelist);
+      await this.setUpAudio(panelist);
+      if (!this.running) {
+        // Stopped while the audio was being set up
+        panelist.streamer?.dispose();
+        return;
+      }
+      this.bindClient(panelist);
+    }
+
+    const panelists = Array.from(this.panelists.values());
+    const results = await Promise.all(
+      panelists.map(({ agent, client }) => client.connect(createConfig(agent)))
+    );
+    if (!this.running) {
+      // Stopped while connecting, close the sessions that opened since
+      panelists.forEach(({ client }, i) => {
+        if (results[i]) client.disconnect();
+      });
+      return;
+    }
+    if (results.includes(false)) {
+      throw new Error('Could not connect every panelist.');
+    }
+
+    const firstId = chooseNextSpeaker(this.policy, this.agentIds, null);
+    this.setSpeaker(firstId);
+    this.panelists.get(firstId)!.client.send({
+      text: 'Open the panel: greet the audience and introduce yourself.',
+    });
+  }
+
+  stop() {
+    if (!this.running) return;
+    this.running = false;
+    clearTimeout(this.handOffTimeout);
+    this.cleanups.forEach(cleanup => cleanup());
+    this.cleanups = [];
+    this.panelists.forEach(({ client, streamer }) => {
+      // The context outlives the panel, the next one adds its own nodes
+      streamer?.dispose();
+      client.disconnect();
+    });
+    this.panelists.clear();
+    this.setSpeaker(null);
+    this.emit('close');
+  }
+
+  /**
+   * Sends the user's microphone audio to the panelist who has the floor.
+   */
+  sendRealtimeInput(chunks: Array<{ mimeType: string; data: string }>) {
+    if (!this.activeSpeakerId) return;
+    this.panelists.get(this.activeSpeakerId)?.client.sendRealtimeInput(chunks);
+  }
+
+  /**
+   * Applies the speaker settings to every panelist, scaled by each agent's
+   * own volume.
+   */
+  setOutput(output: PanelOutput) {
+    this.output = output;
+    this.panelists.forEach(panelist => this.applyOutput(panelist));
+  }
+
+  private applyOutput({ agent, streamer }: Panelist) {
+    if (!streamer) return;
+    const { deviceId, volume, muted, fadeOutTime } = this.output;
+    streamer.setVolume(muted ? 0 : volume * (agent.volume ?? 1));
+    streamer.fadeOutTime = fadeOutTime ?? DEFAULT_FADE_OUT_TIME;
+    streamer.setSinkId(deviceId || '').catch(error => {
+      console.error('Error switching speaker:', error);
+    });
+  }
+
+  private get agentIds() {
+    return this.agents.map(agent => agent.id);
+  }
+
+  private async setUpAudio(panelist: Panelist) {
+    // A context per panelist keeps their volume meters apart
+    const context = await audioContext({ id: `panel-${panelist.agent.id}` });
+    const streamer = new AudioStreamer(context);
+    streamer.onSchedule = (samples, sampleRate, startTime) => {
+      panelist.speechEndTime = startTime + samples.length / sampleRate;
+    };
+    await streamer.addWorklet<any>('vumeter-out', VolMeterWorket, (ev: any) => {
+      this.emit('volume', panelist.agent.id, ev.data.volume);
+    });
+    await streamer.resume();
+    panelist.streamer = streamer;
+    this.applyOutput(panelist);
+  }
+
+  private bindClient(panelist: Panelist) {
+    const { agent, client } = panelist;
+    const isSpeaking = () => this.activeSpeakerId === agent.id;
+
+    const onAudio = (data: ArrayBuffer) => {
+      if (isSpeaking()) {
+        panelist.streamer?.addPCM16(new Uint8Array(data));
+      }
+    };
+    const onOutputTranscription = (text: string) => {
+      if (isSpeaking()) this.turnText += text;
+    };
+    const onInputTranscription = (text: string) => {
+      if (isSpeaking()) this.userText += text;
+    };
+    const onInterrupted = () => panelist.streamer?.stop();
+    const onTurnComplete = () => {
+      if (isSpeaking()) this.scheduleHandOff(panelist);
+    };
+    const onClose = () => this.stop();
+    const onExpression = (expression: Expression, source: GenAILiveClient) => {
+      if (source === client) this.emit('expression', agent.id, expression);
+    };
+    const toolDispatcher = new ToolDispatcher(client);
+
+    client.on('audio', onAudio);
+    client.on('outputTranscription', onOutputTranscription);
+    client.on('inputTranscription', onInputTranscription);
+    client.on('interrupted', onInterrupted);
+    client.on('turncomplete', onTurnComplete);
+    client.on('close', onClose);
+    expressionEvents.on('change', onExpression);
+
+    this.cleanups.push(() => {
+      client.off('audio', onAudio);
+      client.off('outputTranscription', onOutputTranscription);
+      client.off('inputTranscription', onInputTranscription);
+      client.off('interrupted', onInterrupted);
+      client.off('turncomplete', onTurnComplete);
+      client.off('close', onClose);
+      expressionEvents.off('change', onExpression);
+      toolDispatcher.dispose();
+    });
+  }
+
+  /**
+   * Passes the floor on once the speaker's audio has finished playing, so
+   * panelists never talk over each other.
+   */
+  private scheduleHandOff(speaker: Panelist) {
+    const context = speaker.streamer?.context;
+    const remaining = context
+      ? Math.max(0, speaker.speechEndTime - context.currentTime)
+      : 0;
+    clearTimeout(this.handOffTimeout);
+    this.handOffTimeout = window.setTimeout(
+      () => this.handOff(speaker),
+      remaining * 1000
+    );
+  }
+
+  private handOff(speaker: Panelist) {
+    if (!this.running) return;
+
+    const said = this.turnText.trim();
+    const userSaid = this.userText.trim();
+    this.turnText = '';
+    this.userText = '';
+    this.emit('turn', speaker.agent.id, said);
+
+    this.turnCount++;
+    if (this.turnCount >= this.maxTurns) {
+      // Close every session rather than leave them open with nobody speaking
+      this.stop();
+      return;
+    }
+
+    const nextId = chooseNextSpeaker(
+      this.policy,
+      this.agentIds,
+      speaker.agent.id
+    );
+    const relay = [
+      userSaid && `The user said: "${userSaid}"`,
+      said && `${speaker.agent.name} said: "${said}"`,
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    this.panelists.forEach(panelist => {
+      if (panelist === speaker) return;
+      if (panelist.agent.id === nextId) {
+        panelist.client.send({
+          text: `${relay}\nIt is your turn to respond to the panel.`,
+        });
+      } else if (relay) {
+        // The others only listen
+        panelist.client.send({ text: relay }, false);
+      }
+    });
+    this.setSpeaker(nextId);
+  }
+
+  private setSpeaker(agentId: string | null) {
+    this.activeSpeakerId = agentId;
+    this.emit('speaker', agentId);
+  }
+}
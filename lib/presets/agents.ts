@@ -15,12 +15,106 @@ export const INTERLOCUTOR_VOICES = [
 
 export type INTERLOCUTOR_VOICE = (typeof INTERLOCUTOR_VOICES)[number];
 
+/**
+ * Languages the agents can speak, by Live API language code.
+ */
+export const LANGUAGES = [
+  { code: 'en-US', name: 'English', nativeName: 'English' },
+  { code: 'de-DE', name: 'German', nativeName: 'Deutsch' },
+  { code: 'es-US', name: 'Spanish', nativeName: 'Español' },
+  { code: 'fr-FR', name: 'French', nativeName: 'Français' },
+  { code: 'it-IT', name: 'Italian', nativeName: 'Italiano' },
+  { code: 'pt-BR', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'hi-IN', name: 'Hindi', nativeName: 'हिन्दी' },
+  { code: 'ja-JP', name: 'Japanese', nativeName: '日本語' },
+] as const;
+
+export type AgentLanguage = (typeof LANGUAGES)[number]['code'];
+
+export const ACCESSORIES = ['glasses', 'hat', 'mustache'] as const;
+
+export type Accessory = (typeof ACCESSORIES)[number];
+
+export const BACKGROUND_SHAPES = ['circle', 'rounded', 'hexagon'] as const;
+
+export type BackgroundShape = (typeof BACKGROUND_SHAPES)[number];
+
+/**
+ * Proportions and extras of an agent's face. Sizes are relative to the
+ * default face.
+ */
+export type AgentAppearance = {
+  eyeSpacing: number;
+  eyeSize: number;
+  mouthWidth: number;
+  accessories: Accessory[];
+  background: BackgroundShape;
+};
+
+export const DEFAULT_APPEARANCE: AgentAppearance = {
+  eyeSpacing: 1,
+  eyeSize: 1,
+  mouthWidth: 1,
+  accessories: [],
+  background: 'circle',
+};
+
+/**
+ * Selects how an agent is drawn: the name of a registered avatar style and
+ * the values of its options.
+ */
+export type AgentAvatar = {
+  renderer: string;
+  options?: Record<string, string | number>;
+};
+
+/**
+ * A personality described field by field. List fields hold one entry per
+ * line as typed; empty entries are ignored when the profile is compiled.
+ */
+export type PersonalityProfile = {
+  role: string;
+  speakingStyle: string;
+  // Most words per answer, 0 for no limit
+  wordLimit: number;
+  catchphrases: string[];
+  topicsToAvoid: string[];
+  knowledgeDomains: string[];
+  examples: Array<{ user: string; agent: string }>;
+};
+
+export const EMPTY_PROFILE: PersonalityProfile = {
+  role: '',
+  speakingStyle: '',
+  wordLimit: 0,
+  catchphrases: [],
+  topicsToAvoid: [],
+  knowledgeDomains: [],
+  examples: [],
+};
+
 export type Agent = {
   id: string;
   name: string;
+  // Raw personality text, used when there is no profile
   personality: string;
+  // Compiled into the personality when set
+  profile?: PersonalityProfile;
+  // Replaces the default system instructions template
+  promptTemplate?: string;
+  // Language the agent speaks and the UI is shown in, defaults to
+  // whatever language the user speaks
+  language?: AgentLanguage;
   bodyColor: string;
   voice: INTERLOCUTOR_VOICE;
+  // Names of the registered tools the agent can call
+  tools?: string[];
+  // Playback volume between 0 and 1, defaults to 1
+  volume?: number;
+  // Defaults to the classic face
+  avatar?: AgentAvatar;
+  // Defaults to `DEFAULT_APPEARANCE`
+  appearance?: AgentAppearance;
 };
 
 export const AGENT_COLORS = [
@@ -34,9 +128,11 @@ export const AGENT_COLORS = [
   '#24c1e0',
 ];
 
+export const createAgentId = () => Math.random().toString(36).substring(2, 15);
+
 export const createNewAgent = (properties?: Partial<Agent>): Agent => {
   return {
-    id: Math.random().toString(36).substring(2, 15),
+    id: createAgentId(),
     name: '',
     personality: '',
     bodyColor: AGENT_COLORS[Math.floor(Math.random() * AGENT_COLORS.length)],
@@ -78,6 +174,7 @@ You possess a vast knowledge of etiquette history and enjoy sharing obscure fact
 and anecdotes, often to illustrate the absurdity of contemporary behavior.`,
   bodyColor: '#ea4335',
   voice: 'Fenrir',
+  tools: ['set_expression'],
 };
 
 export const Shane: Agent = {
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { renderTemplate, TemplateError } from './prompt-template';
+
+describe('renderTemplate', () => {
+  it('replaces variables with their values', () => {
+    expect(
+      renderTemplate('Hi {{name}}, I am {{ agent }}.', {
+        name: 'Ada',
+        agent: 'Paul',
+      })
+    ).toBe('Hi Ada, I am Paul.');
+  });
+
+  it('shows a section only when its variable is not blank', () => {
+    const template = 'A{{#if info}} ({{info}}){{/if}}.';
+    expect(renderTemplate(template, { info: 'likes tea' })).toBe(
+      'A (likes tea).'
+    );
+    expect(renderTemplate(template, { info: '  ' })).toBe('A.');
+  });
+
+  it('shows the else branch when the variable is blank', () => {
+    const template = '{{#if name}}Hi {{name}}{{else}}Hello{{/if}}!';
+    expect(renderTemplate(template, { name: 'Ada' })).toBe('Hi Ada!');
+    expect(renderTemplate(template, { name: '' })).toBe('Hello!');
+  });
+
+  it('hides nested sections with their parent', () => {
+    const template = '{{#if a}}a{{#if b}}b{{else}}c{{/if}}{{/if}}';
+    expect(renderTemplate(template, { a: '', b: '' })).toBe('');
+    expect(renderTemplate(template, { a: '1', b: '' })).toBe('ac');
+    expect(renderTemplate(template, { a: '1', b: '1' })).toBe('ab');
+  });
+
+  it('removes the lines of section tags that stand alone', () => {
+    const template = [
+      'Start',
+      '  {{#if name}}',
+      'Name: {{name}}',
+      '{{else}}  ',
+      'No name',
+      '{{/if}}',
+      'End',
+    ].join('\n');
+    expect(renderTemplate(template, { name: 'Ada' })).toBe(
+      'Start\nName: Ada\nEnd'
+    );
+    expect(renderTemplate(template, { name: '' })).toBe('Start\nNo name\nEnd');
+  });
+
+  it('rejects unknown variables, even in hidden sections', () => {
+    expect(() => renderTemplate('{{missing}}', {})).toThrow(
+      new TemplateError('Unknown variable "missing".')
+    );
+    expect(() =>
+      renderTemplate('{{#if a}}{{missing}}{{/if}}', { a: '' })
+    ).toThrow(TemplateError);
+    expect(() => renderTemplate('{{#if missing}}{{/if}}', {})).toThrow(
+      TemplateError
+    );
+  });
+
+  it('rejects unbalanced sections', () => {
+    expect(() => renderTemplate('{{else}}', {})).toThrow(
+      '{{else}} is outside of an {{#if}} section.'
+    );
+    expect(() =>
+      renderTemplate('{{#if a}}{{else}}{{else}}{{/if}}', { a: '' })
+    ).toThrow('{{else}} is outside of an {{#if}} section.');
+    expect(() => renderTemplate('{{/if}}', {})).toThrow(
+      '{{/if}} has no matching {{#if}}.'
+    );
+    expect(() => renderTemplate('{{#if a}}', { a: '1' })).toThrow(
+      'An {{#if}} section is never closed.'
+    );
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Values of the variables a template can use, by name.
+ */
+export type TemplateVariables = Record<string, string>;
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+// `{{name}}`, `{{#if name}}`, `{{else}}` and `{{/if}}`
+const TAG = /\{\{\s*(#if\s+([\w.]+)|else|\/if|([\w.]+))\s*\}\}/g;
+
+// Section tags alone on their line take the line break with them
+const STANDALONE_SECTION_TAG =
+  /^[ \t]*(\{\{\s*(?:#if\s+[\w.]+|else|\/if)\s*\}\})[ \t]*\r?\n/gm;
+
+export const VARIABLE_NAME = /^\w+$/;
+
+/**
+ * Renders a template, replacing `{{name}}` with the value of the variable.
+ * Sections between `{{#if name}}` and `{{/if}}` only show when the variable
+ * is not blank, and may hold an `{{else}}` shown otherwise. Throws a
+ * `TemplateError` for unknown variables and unbalanced sections.
+ */
+export function renderTemplate(
+  template: string,
+  variables: TemplateVariables
+): string {
+  const source = template.replace(STANDALONE_SECTION_TAG, '$1');
+  // Every open section, and whether it shows its current branch
+  const sections: Array<{ shown: boolean; inElse: boolean }> = [];
+  const isVisible = () => sections.every(section => section.shown);
+  const lookUp = (name: string) => {
+    if (!(name in variables)) {
+      throw new TemplateError(`Unknown variable "${name}".`);
+    }
+    return variables[name];
+  };
+
+  let output = '';
+  let last = 0;
+  for (const match of source.matchAll(TAG)) {
+    if (isVisible()) {
+      output += source.slice(last, match.index);
+    }
+    last = match.index + match[0].length;
+    const [, tag, condition, name] = match;
+
+    if (condition) {
+      sections.push({ shown: !!lookUp(condition).trim(), inElse: false });
+    } else if (tag === 'else') {
+      const section = sections[sections.length - 1];
+      if (!section || section.inElse) {
+        throw new TemplateError('{{else}} is outside of an {{#if}} section.');
+      }
+      section.shown = !section.shown;
+      section.inElse = true;
+    } else if (tag === '/if') {
+      if (!sections.pop()) {
+        throw new TemplateError('{{/if}} has no matching {{#if}}.');
+      }
+    } else {
+      const value = lookUp(name);
+      if (isVisible()) output += value;
+    }
+  }
+  if (sections.length) {
+    throw new TemplateError('An {{#if}} section is never closed.');
+  }
+  return output + source.slice(last);
+}
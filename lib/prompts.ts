@@ -2,31 +2,147 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { Agent } from './presets/agents';
-import { User } from './state';
+import { Agent, LANGUAGES, PersonalityProfile } from './presets/agents';
+import { PromptSettings, User } from './state';
+import { renderTemplate, TemplateVariables } from './prompt-template';
 
-export const createSystemInstructions = (agent: Agent, user: User) =>
-  `Your name is ${agent.name} and you are in a conversation with the user\
-${user.name ? ` (${user.name})` : ''}.
+/**
+ * Writes a personality profile out as a description of the agent.
+ */
+export function compilePersonality({
+  role,
+  speakingStyle,
+  wordLimit,
+  catchphrases,
+  topicsToAvoid,
+  knowledgeDomains,
+  examples,
+}: PersonalityProfile): string {
+  const clean = (items: string[]) =>
+    items.map(item => item.trim()).filter(Boolean);
+  const phrases = clean(catchphrases);
+  const avoid = clean(topicsToAvoid);
+  const domains = clean(knowledgeDomains);
+  const exchanges = examples.filter(
+    example => example.user.trim() && example.agent.trim()
+  );
 
-Your personality is described like this:
-${agent.personality}\
-${
-  user.info
-    ? `\nHere is some information about ${user.name || 'the user'}:
-${user.info}
-
-Use this information to make your response more personal.`
-    : ''
+  return [
+    role.trim(),
+    speakingStyle.trim() && `Your speaking style: ${speakingStyle.trim()}`,
+    wordLimit > 0 && `All talking is kept to ${wordLimit} words or less.`,
+    domains.length &&
+      `You have deep knowledge of these subjects: ${domains.join(', ')}.`,
+    phrases.length &&
+      `Now and then you use your catchphrases: ${phrases
+        .map(phrase => `"${phrase}"`)
+        .join(', ')}.`,
+    avoid.length &&
+      `Never talk about these topics, and steer the conversation elsewhere \
+if the user brings them up: ${avoid.join(', ')}.`,
+    exchanges.length &&
+      `Here are examples of how you answer:
+${exchanges
+  .map(({ user, agent }) => `User: ${user.trim()}\nYou: ${agent.trim()}`)
+  .join('\n\n')}`,
+  ]
+    .filter(Boolean)
+    .join('\n');
 }
 
-Today's date is ${new Intl.DateTimeFormat(navigator.languages[0], {
-    dateStyle: 'full',
-  }).format(new Date())} at ${new Date()
-    .toLocaleTimeString()
-    .replace(/:\d\d /, ' ')}.
+/**
+ * The description of an agent's personality, compiled from its profile
+ * unless it only has raw text.
+ */
+export const getPersonality = (agent: Agent) =>
+  agent.profile ? compilePersonality(agent.profile) : agent.personality;
+
+/**
+ * The template used when neither the agent nor the user set one.
+ */
+export const DEFAULT_SYSTEM_TEMPLATE = `\
+Your name is {{agent.name}} and you are in a conversation with the user\
+{{#if user.name}} ({{user.name}}){{/if}}.
+
+Your personality is described like this:
+{{agent.personality}}
+{{#if user.info}}
+Here is some information about {{#if user.name}}{{user.name}}{{else}}the user{{/if}}:
+{{user.info}}
+
+Use this information to make your response more personal.
+{{/if}}
+
+Today's date is {{date}} at {{time}}.
 
 Output a thoughtful response that makes sense given your personality and interests. \
 Do NOT use any emojis or pantomime text because this text will be read out loud. \
 Keep it fairly concise, don't speak too many sentences at once. NEVER EVER repeat \
 things you've said before in the conversation!`;
+
+/**
+ * Names and descriptions of the variables every template can use.
+ */
+export const BUILT_IN_VARIABLES: Array<{ name: string; description: string }> =
+  [
+    { name: 'agent.name', description: 'Name of the agent' },
+    { name: 'agent.personality', description: 'Personality of the agent' },
+    { name: 'agent.voice', description: 'Voice of the agent' },
+    { name: 'agent.language', description: 'Language the agent speaks' },
+    { name: 'user.name', description: 'Your name' },
+    { name: 'user.info', description: 'Your info' },
+    { name: 'date', description: 'Today’s date' },
+    { name: 'time', description: 'The current time' },
+    { name: 'locale', description: 'Your preferred language and region' },
+  ];
+
+const getLanguageName = (agent: Agent) =>
+  LANGUAGES.find(({ code }) => code === agent.language)?.name || '';
+
+/**
+ * Collects the values of the variables for a conversation. Custom variables
+ * never replace built-in ones.
+ */
+export function createTemplateVariables(
+  agent: Agent,
+  user: User,
+  customVariables: TemplateVariables = {}
+): TemplateVariables {
+  const locale =
+    agent.language || navigator.languages[0] || navigator.language;
+  const now = new Date();
+  return {
+    ...customVariables,
+    'agent.name': agent.name,
+    'agent.personality': getPersonality(agent),
+    'agent.voice': agent.voice,
+    'agent.language': getLanguageName(agent),
+    'user.name': user.name || '',
+    'user.info': user.info || '',
+    date: new Intl.DateTimeFormat(locale, { dateStyle: 'full' }).format(now),
+    time: now.toLocaleTimeString(locale).replace(/:\d\d /, ' '),
+    locale,
+  };
+}
+
+/**
+ * Renders the system instructions from the agent's own template, the user's
+ * default template or the built-in one, in that order. Agents with a
+ * language are told to keep to it whatever the template says.
+ * Throws a `TemplateError` if the template is malformed.
+ */
+export function createSystemInstructions(
+  agent: Agent,
+  user: User,
+  { template, variables }: Partial<PromptSettings> = {}
+) {
+  const instructions = renderTemplate(
+    agent.promptTemplate || template || DEFAULT_SYSTEM_TEMPLATE,
+    createTemplateVariables(agent, user, variables)
+  );
+  const language = getLanguageName(agent);
+  return language
+    ? `${instructions}\n\nAlways respond in ${language}, even when the user \
+speaks another language.`
+    : instructions;
+}
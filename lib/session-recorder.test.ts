@@ -0,0 +1,214 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Paul } from './presets/agents';
+import {
+  encodeWav,
+  encodeZip,
+  SessionExport,
+  SessionRecorder,
+} from './session-recorder';
+import { TranscriptTurn } from './transcript';
+import { downloadBlob } from './utils';
+
+vi.mock('./utils', () => ({ downloadBlob: vi.fn() }));
+
+// Reads the files of a stored ZIP archive by name
+async function readZip(blob: Blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const files: Record<string, Uint8Array> = {};
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 22, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const start = offset + 30 + nameLength;
+    const name = new TextDecoder().decode(bytes.subarray(offset + 30, start));
+    files[name] = bytes.subarray(start, start + size);
+    offset = start + size;
+  }
+  return files;
+}
+
+// Splits a 16-bit stereo WAV file into its channels, with the samples
+// rounded to undo the loss of precision
+function readStereoWav(wav: Uint8Array): [number[], number[]] {
+  const view = new DataView(wav.buffer, wav.byteOffset, wav.byteLength);
+  const read = (offset: number) =>
+    Math.round((view.getInt16(offset, true) / 32768) * 1000) / 1000;
+  const left: number[] = [];
+  const right: number[] = [];
+  for (let offset = 44; offset < wav.byteLength; offset += 4) {
+    left.push(read(offset));
+    right.push(read(offset + 2));
+  }
+  return [left, right];
+}
+
+function pcm16(length: number, value: number): ArrayBuffer {
+  return new Int16Array(length).fill(value * 32768).buffer;
+}
+
+describe('encodeWav', () => {
+  it('writes a PCM header followed by interleaved samples', () => {
+    const wav = encodeWav(
+      [new Float32Array([0, 1, -1]), new Float32Array([0.5, 2, -2])],
+      24000
+    );
+    const view = new DataView(wav.buffer);
+    const text = (offset: number) =>
+      new TextDecoder().decode(wav.subarray(offset, offset + 4));
+
+    expect(wav.byteLength).toBe(44 + 12);
+    expect(text(0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + 12);
+    expect(text(8)).toBe('WAVE');
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(24000 * 4);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(text(36)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(12);
+    // Out of range samples are clamped
+    expect(Array.from(new Int16Array(wav.buffer, 44))).toEqual([
+      0, 16383, 32767, 32767, -32768, -32768,
+    ]);
+  });
+});
+
+describe('encodeZip', () => {
+  it('stores the files uncompressed with their checksums', async () => {
+    const data = new TextEncoder().encode('123456789');
+    const zip = await encodeZip([{ name: 'a.txt', data }]).arrayBuffer();
+    const view = new DataView(zip);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0);
+    expect(view.getUint32(14, true)).toBe(0xcbf43926);
+    expect(await readZip(new Blob([zip]))).toEqual({ 'a.txt': data });
+    // The archive ends with the directory record, pointing at one entry
+    const end = new DataView(zip, zip.byteLength - 22);
+    expect(end.getUint32(0, true)).toBe(0x06054b50);
+    expect(end.getUint16(10, true)).toBe(1);
+  });
+});
+
+describe('SessionRecorder', () => {
+  let now = 0;
+  let recorder: SessionRecorder;
+
+  async function exportSession(transcript: TranscriptTurn[] = []) {
+    recorder.export({ agent: Paul, transcript, groundingChunks: [] });
+    const [blob, filename] = vi.mocked(downloadBlob).mock.lastCall!;
+    const files = await readZip(blob);
+    const name = filename.replace(/\.zip$/, '');
+    return {
+      filename,
+      channels: readStereoWav(files[`${name}.wav`]),
+      session: JSON.parse(
+        new TextDecoder().decode(files[`${name}.json`])
+      ) as SessionExport,
+    };
+  }
+
+  beforeEach(() => {
+    now = 1000;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    recorder = new SessionRecorder();
+    recorder.start();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('mixes the microphone left and the agent right', async () => {
+    // 0.125s of microphone audio at 16 kHz, just finished recording
+    now = 1125;
+    recorder.addInput(pcm16(2000, 0.5), 16000);
+    // 0.125s of agent audio, starting 0.125s into the recording
+    recorder.addOutput(new Float32Array(3000).fill(0.25), 24000, 1125);
+
+    const { filename, channels, session } = await exportSession();
+    const [left, right] = channels;
+    expect(filename).toMatch(/^chatterbots-proper-paul-.*\.zip$/);
+    expect(left).toHaveLength(6000);
+    expect(session.duration).toBe(0.25);
+    // The microphone is resampled to the 24 kHz of the mix
+    expect(left.slice(0, 2999)).toEqual(new Array(2999).fill(0.5));
+    expect(left.slice(3000)).toEqual(new Array(3000).fill(0));
+    expect(right.slice(0, 3000)).toEqual(new Array(3000).fill(0));
+    expect(right.slice(3000)).toEqual(new Array(3000).fill(0.25));
+  });
+
+  it('places microphone chunks one after the other', async () => {
+    // Chunks delivered together would overlap if placed by arrival time
+    now = 1125;
+    recorder.addInput(pcm16(3000, 0.25), 24000);
+    recorder.addInput(pcm16(3000, 0.5), 24000);
+
+    const [left] = (await exportSession()).channels;
+    expect(left).toHaveLength(6000);
+    expect(left.slice(0, 3000)).toEqual(new Array(3000).fill(0.25));
+    expect(left.slice(3000)).toEqual(new Array(3000).fill(0.5));
+  });
+
+  it('adds up overlapping agent audio', async () => {
+    recorder.addOutput(new Float32Array(3000).fill(0.25), 24000, 1000);
+    recorder.addOutput(new Float32Array(3000).fill(0.25), 24000, 1062.5);
+
+    const [, right] = (await exportSession()).channels;
+    expect(right).toHaveLength(4500);
+    expect(right.slice(0, 1500)).toEqual(new Array(1500).fill(0.25));
+    expect(right.slice(1500, 3000)).toEqual(new Array(1500).fill(0.5));
+    expect(right.slice(3000)).toEqual(new Array(1500).fill(0.25));
+  });
+
+  it('drops the agent audio cut off by an interruption', async () => {
+    recorder.addOutput(new Float32Array(3000).fill(0.25), 24000, 1000);
+    recorder.addOutput(new Float32Array(3000).fill(0.25), 24000, 1125);
+    recorder.truncateOutput(1062.5);
+
+    const [, right] = (await exportSession()).channels;
+    expect(right).toEqual(new Array(1500).fill(0.25));
+  });
+
+  it('ignores audio while stopped', async () => {
+    recorder.stop();
+    recorder.addInput(pcm16(3000, 0.5), 24000);
+    recorder.addOutput(new Float32Array(3000).fill(0.5), 24000, 1000);
+
+    const { channels, session } = await exportSession();
+    expect(channels).toEqual([[], []]);
+    expect(session.duration).toBe(0);
+  });
+
+  it('exports the turns of the recording with their times', async () => {
+    const { startedAt } = (await exportSession()).session;
+    const start = Date.parse(startedAt);
+    const turn = (text: string, timestamp: number): TranscriptTurn => ({
+      id: text,
+      role: 'agent',
+      text,
+      final: true,
+      timestamp,
+    });
+
+    const { session } = await exportSession([
+      turn('Before', start - 1),
+      turn('Hello', start + 500),
+      {
+        ...turn('Interrupted', start + 2000),
+        truncated: { played: 1.5, heardText: 'Inter' },
+      },
+    ]);
+    expect(session.agent).toEqual(Paul);
+    expect(session.turns).toEqual([
+      { role: 'agent', text: 'Hello', time: 0.5 },
+      { role: 'agent', text: 'Interrupted', time: 2, truncatedAt: 1.5 },
+    ]);
+  });
+});
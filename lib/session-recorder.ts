@@ -0,0 +1,338 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GroundingChunk } from './genai-live-client';
+import { Agent } from './presets/agents';
+import { TranscriptTurn } from './transcript';
+import { downloadBlob } from './utils';
+
+// The model speaks at 24 kHz, so the mix uses the same rate
+const OUTPUT_SAMPLE_RATE = 24000;
+
+type Segment = {
+  // Seconds since the recording started
+  offset: number;
+  samples: Float32Array;
+  sampleRate: number;
+};
+
+export type SessionExport = {
+  version: 1;
+  startedAt: string;
+  duration: number;
+  agent: Agent;
+  turns: Array<{
+    role: TranscriptTurn['role'];
+    text: string;
+    // Seconds since the recording started
+    time: number;
+    // Seconds of audio played before the user interrupted
+    truncatedAt?: number;
+  }>;
+  groundingChunks: GroundingChunk[];
+};
+
+function pcm16ToFloat32(buffer: ArrayBuffer): Float32Array {
+  const int16 = new Int16Array(buffer);
+  const float32 = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) {
+    float32[i] = int16[i] / 32768;
+  }
+  return float32;
+}
+
+/**
+ * Encodes channels of equal length as a 16-bit PCM WAV file.
+ */
+export function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number
+): Uint8Array {
+  const numChannels = channels.length;
+  const length = channels[0]?.length || 0;
+  const dataSize = length * numChannels * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * 2, true);
+  view.setUint16(32, numChannels * 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+
+  return new Uint8Array(view.buffer);
+}
+
+let crcTable: Uint32Array | undefined;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Bundles files into an uncompressed ZIP archive, so they download as one.
+ * @param date - Modification time of the files
+ */
+export function encodeZip(
+  files: Array<{ name: string; data: Uint8Array }>,
+  date = new Date()
+): Blob {
+  const time =
+    (date.getHours() << 11) |
+    (date.getMinutes() << 5) |
+    (date.getSeconds() >> 1);
+  const day =
+    ((date.getFullYear() - 1980) << 9) |
+    ((date.getMonth() + 1) << 5) |
+    date.getDate();
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(({ name, data }) => {
+    const nameBytes = encoder.encode(name);
+    const crc = crc32(data);
+
+    // Local file header, followed by the name and the data
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(8, 0, true); // Stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, day, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+    parts.push(new Uint8Array(local.buffer), nameBytes, data);
+
+    // Central directory entry, pointing back at the local header
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true); // Version made by
+    entry.setUint16(6, 20, true); // Version needed
+    entry.setUint16(10, 0, true); // Stored
+    entry.setUint16(12, time, true);
+    entry.setUint16(14, day, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, nameBytes.length, true);
+    entry.setUint32(42, offset, true);
+    directory.push(new Uint8Array(entry.buffer), nameBytes);
+
+    offset += 30 + nameBytes.length + data.length;
+  });
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, new Uint8Array(end.buffer)], {
+    type: 'application/zip',
+  });
+}
+
+/**
+ * Records both sides of a conversation onto a shared timeline. The user's
+ * microphone is mixed onto the left channel and the agent onto the right.
+ */
+export class SessionRecorder {
+  private startedAt: number = 0;
+  private startDate: Date = new Date();
+  private input: Segment[] = [];
+  private output: Segment[] = [];
+  // End of the last input segment, so consecutive chunks never overlap
+  private inputCursor: number = 0;
+
+  public recording: boolean = false;
+
+  constructor() {
+    this.addInput = this.addInput.bind(this);
+    this.addOutput = this.addOutput.bind(this);
+  }
+
+  start() {
+    this.startedAt = performance.now();
+    this.startDate = new Date();
+    this.input = [];
+    this.output = [];
+    this.inputCursor = 0;
+    this.recording = true;
+  }
+
+  stop() {
+    this.recording = false;
+  }
+
+  /**
+   * Adds a PCM16 chunk from the microphone that has just finished recording.
+   */
+  addInput(data: ArrayBuffer, sampleRate: number) {
+    if (!this.recording) return;
+    const samples = pcm16ToFloat32(data);
+    const duration = samples.length / sampleRate;
+    const offset = Math.max(
+      this.inputCursor,
+      (performance.now() - this.startedAt) / 1000 - duration
+    );
+    this.input.push({ offset, samples, sampleRate });
+    this.inputCursor = offset + duration;
+  }
+
+  /**
+   * Adds model audio that starts playing at `startTime`, given in
+   * milliseconds on the `performance.now()` clock.
+   */
+  addOutput(samples: Float32Array, sampleRate: number, startTime: number) {
+    if (!this.recording) return;
+    const offset = Math.max(0, (startTime - this.startedAt) / 1000);
+    this.output.push({ offset, samples, sampleRate });
+  }
+
+  /**
+   * Drops model audio scheduled after `endTime`, given in milliseconds on the
+   * `performance.now()` clock, e.g. the audio flushed when the user
+   * interrupted the model and never heard.
+   */
+  truncateOutput(endTime: number) {
+    if (!this.recording) return;
+    const end = (endTime - this.startedAt) / 1000;
+    this.output = this.output
+      .filter(({ offset }) => offset < end)
+      .map(segment => {
+        const { offset, samples, sampleRate } = segment;
+        const count = Math.ceil((end - offset) * sampleRate);
+        return count < samples.length
+          ? { ...segment, samples: samples.subarray(0, count) }
+          : segment;
+      });
+  }
+
+  /**
+   * Mixes the recorded segments into one channel per side.
+   */
+  private mix(): [Float32Array, Float32Array] {
+    // End of the last segment. Found one segment at a time, as passing hours
+    // of segments to a single `Math.max` call would exceed the argument limit.
+    let end = 0;
+    [...this.input, ...this.output].forEach(
+      ({ offset, samples, sampleRate }) => {
+        end = Math.max(end, offset + samples.length / sampleRate);
+      }
+    );
+    const length = Math.ceil(end * OUTPUT_SAMPLE_RATE);
+
+    const render = (segments: Segment[]) => {
+      const channel = new Float32Array(length);
+      segments.forEach(({ offset, samples, sampleRate }) => {
+        const start = Math.floor(offset * OUTPUT_SAMPLE_RATE);
+        const ratio = sampleRate / OUTPUT_SAMPLE_RATE;
+        const count = Math.floor(samples.length / ratio);
+        for (let i = 0; i < count && start + i < length; i++) {
+          // Linear interpolation between the nearest source samples
+          const position = i * ratio;
+          const index = Math.floor(position);
+          const next = samples[Math.min(index + 1, samples.length - 1)];
+          const fraction = position - index;
+          channel[start + i] +=
+            samples[index] * (1 - fraction) + next * fraction;
+        }
+      });
+      return channel;
+    };
+
+    return [render(this.input), render(this.output)];
+  }
+
+  /**
+   * Downloads a ZIP file with the recording as a stereo WAV file and the
+   * conversation as a JSON file. Browsers block several downloads at once,
+   * so the two are bundled.
+   */
+  export({
+    agent,
+    transcript,
+    groundingChunks,
+  }: {
+    agent: Agent;
+    transcript: TranscriptTurn[];
+    groundingChunks: GroundingChunk[];
+  }) {
+    const [left, right] = this.mix();
+    const startEpoch = this.startDate.getTime();
+    const session: SessionExport = {
+      version: 1,
+      startedAt: this.startDate.toISOString(),
+      duration: left.length / OUTPUT_SAMPLE_RATE,
+      agent,
+      turns: transcript
+        .filter(turn => turn.timestamp >= startEpoch)
+        .map(({ role, text, timestamp, truncated }) => ({
+          role,
+          text,
+          time: (timestamp - startEpoch) / 1000,
+          ...(truncated && { truncatedAt: truncated.played }),
+        })),
+      groundingChunks,
+    };
+
+    const name = `chatterbots-${agent.id}-${session.startedAt.replace(
+      /[:.]/g,
+      '-'
+    )}`;
+    const files = [
+      {
+        name: `${name}.wav`,
+        data: encodeWav([left, right], OUTPUT_SAMPLE_RATE),
+      },
+      {
+        name: `${name}.json`,
+        data: new TextEncoder().encode(JSON.stringify(session, null, 2)),
+      },
+    ];
+    downloadBlob(encodeZip(files, this.startDate), `${name}.zip`);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  Charlotte,
+  NewsAgent,
+  Paul,
+  Penny,
+  Shane,
+} from './presets/agents';
+
+const STORAGE_KEY = 'chatterbots-agents';
+
+// Loads a fresh agent store, hydrated from the given stored state
+async function loadAgentStore(stored?: { state: object; version: number }) {
+  if (stored) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  }
+  vi.resetModules();
+  const { useAgent } = await import('./state');
+  return useAgent;
+}
+
+function readStored() {
+  return JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+}
+
+describe('useAgent persistence', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('starts from the factory presets', async () => {
+    const useAgent = await loadAgentStore();
+    expect(useAgent.getState().availablePresets).toEqual([
+      Paul,
+      Charlotte,
+      Shane,
+      Penny,
+      NewsAgent,
+    ]);
+  });
+
+  it('stores only the fields changed in a preset', async () => {
+    const useAgent = await loadAgentStore();
+    useAgent.getState().update(Paul.id, { name: 'Paul' });
+    expect(readStored()).toEqual({
+      state: {
+        currentId: NewsAgent.id,
+        presetEdits: { [Paul.id]: { name: 'Paul' } },
+        availablePersonal: [],
+      },
+      version: 2,
+    });
+  });
+
+  it('applies stored edits over the factory presets', async () => {
+    const useAgent = await loadAgentStore({
+      state: {
+        currentId: Paul.id,
+        presetEdits: { [Paul.id]: { name: 'Paul', tools: null } },
+        availablePersonal: [],
+      },
+      version: 2,
+    });
+    const { tools, ...withoutTools } = Paul;
+    const edited = { ...withoutTools, name: 'Paul' };
+    const state = useAgent.getState();
+    expect(state.availablePresets.find(a => a.id === Paul.id)).toEqual(edited);
+    expect(state.availablePresets.find(a => a.id === Charlotte.id)).toEqual(
+      Charlotte
+    );
+    expect(state.current).toEqual(edited);
+  });
+
+  it('migrates presets that were stored whole', async () => {
+    // Stored before Paul had tools, with his name edited
+    const { tools, ...storedPaul } = Paul;
+    const useAgent = await loadAgentStore({
+      state: {
+        currentId: Paul.id,
+        availablePresets: [{ ...storedPaul, name: 'Paul' }, Charlotte],
+        availablePersonal: [],
+      },
+      version: 1,
+    });
+    const { availablePresets } = useAgent.getState();
+    expect(availablePresets.find(a => a.id === Paul.id)).toEqual({ ...Paul, name: 'Paul' });
+    expect(readStored().state.presetEdits).toEqual({
+      [Paul.id]: { name: 'Paul' },
+    });
+    expect(readStored().state).not.toHaveProperty('availablePresets');
+  });
+
+  it('falls back to the default agent for an unknown current id', async () => {
+    const useAgent = await loadAgentStore({
+      state: { currentId: 'gone', presetEdits: {}, availablePersonal: [] },
+      version: 2,
+    });
+    expect(useAgent.getState().current.id).toBe(NewsAgent.id);
+  });
+});
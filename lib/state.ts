@@ -3,14 +3,21 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
 import {
   Agent,
+  createAgentId,
   Charlotte,
   Paul,
   Shane,
   Penny,
   NewsAgent,
 } from './presets/agents';
+import { createPersistOptions } from './storage';
+import { MAX_PANELISTS, ModeratorPolicy } from './panel-session';
+import { AudioInputOptions } from './audio-recorder';
+import { TurnDetection } from './live-config';
+import { SpeechFeatures } from './worklets/speech-analysis';
 
 /**
  * User
@@ -20,21 +27,72 @@ export type User = {
   info?: string;
 };
 
-export const useUser = create<
-  {
-    setName: (name: string) => void;
-    setInfo: (info: string) => void;
-  } & User
->(set => ({
-  name: '',
-  info: '',
-  setName: name => set({ name }),
-  setInfo: info => set({ info }),
-}));
+type UserState = {
+  setName: (name: string) => void;
+  setInfo: (info: string) => void;
+} & User;
+
+export const useUser = create<UserState>()(
+  persist(
+    set => ({
+      name: '',
+      info: '',
+      setName: name => set({ name }),
+      setInfo: info => set({ info }),
+    }),
+    createPersistOptions<UserState, User>({
+      name: 'user',
+      version: 1,
+      partialize: ({ name, info }) => ({ name, info }),
+    })
+  )
+);
+
+/**
+ * System instructions
+ */
+export type PromptSettings = {
+  // Template for agents without their own, the built-in one when empty
+  template: string;
+  // Custom variables every template can use, by name
+  variables: Record<string, string>;
+};
+
+type PromptSettingsState = PromptSettings & {
+  setTemplate: (template: string) => void;
+  setVariable: (name: string, value: string) => void;
+  removeVariable: (name: string) => void;
+};
+
+export const usePromptSettings = create<PromptSettingsState>()(
+  persist(
+    set => ({
+      template: '',
+      variables: {},
+      setTemplate: (template: string) => set({ template }),
+      setVariable: (name: string, value: string) =>
+        set(state => ({ variables: { ...state.variables, [name]: value } })),
+      removeVariable: (name: string) =>
+        set(state => {
+          const variables = { ...state.variables };
+          delete variables[name];
+          return { variables };
+        }),
+    }),
+    createPersistOptions<PromptSettingsState, PromptSettings>({
+      name: 'prompts',
+      version: 1,
+      partialize: ({ template, variables }) => ({ template, variables }),
+    })
+  )
+);
 
 /**
  * Agents
  */
+// The factory versions of the presets, used to restore edited presets.
+const PRESET_AGENTS: Agent[] = [Paul, Charlotte, Shane, Penny, NewsAgent];
+
 function getAgentById(id: string) {
   const { availablePersonal, availablePresets } = useAgent.getState();
   return (
@@ -43,63 +101,385 @@ function getAgentById(id: string) {
   );
 }
 
-export const useAgent = create<{
+type AgentState = {
   current: Agent;
   availablePresets: Agent[];
   availablePersonal: Agent[];
   setCurrent: (agent: Agent | string) => void;
   addAgent: (agent: Agent) => void;
   update: (agentId: string, adjustments: Partial<Agent>) => void;
-}>(set => ({
-  current: NewsAgent,
-  availablePresets: [Paul, Charlotte, Shane, Penny, NewsAgent],
-  availablePersonal: [],
-
-  addAgent: (agent: Agent) => {
-    set(state => ({
-      availablePersonal: [...state.availablePersonal, agent],
-      current: agent,
-    }));
-  },
-  setCurrent: (agent: Agent | string) => {
-    const agentToSet = typeof agent === 'string' ? getAgentById(agent) : agent;
-    if (!agentToSet) {
-      console.error(`Agent with id "${agent}" not found.`);
-      return;
+  resetPreset: (agentId: string) => void;
+  importAgents: (agents: Agent[]) => Agent[];
+};
+
+// Fields the user changed in a preset; null marks a field they cleared
+type PresetEdits = { [K in keyof Agent]?: Agent[K] | null };
+
+/**
+ * Collects what differs between each preset and its factory version, so
+ * changes to the presets in code still reach users who edited them.
+ * @param keepCleared - Whether fields missing from a preset were cleared by
+ * the user rather than added to the factory version since it was stored
+ */
+function collectPresetEdits(
+  agents: Agent[],
+  keepCleared = true
+): Record<string, PresetEdits> {
+  const edits: Record<string, PresetEdits> = {};
+  agents.forEach(agent => {
+    const preset = PRESET_AGENTS.find(a => a.id === agent.id);
+    if (!preset) return;
+    const keys = new Set(Object.keys(agent) as Array<keyof Agent>);
+    if (keepCleared) {
+      (Object.keys(preset) as Array<keyof Agent>).forEach(key => keys.add(key));
     }
-    set({ current: agentToSet });
-  },
-  update: (agentId: string, adjustments: Partial<Agent>) => {
-    let agent = getAgentById(agentId);
-    if (!agent) return;
-    const updatedAgent = { ...agent, ...adjustments };
-    set(state => ({
-      availablePresets: state.availablePresets.map(a =>
-        a.id === agentId ? updatedAgent : a
-      ),
-      availablePersonal: state.availablePersonal.map(a =>
-        a.id === agentId ? updatedAgent : a
-      ),
-      current: state.current.id === agentId ? updatedAgent : state.current,
-    }));
-  },
+    const changed: Record<string, unknown> = {};
+    keys.forEach(key => {
+      if (JSON.stringify(agent[key]) !== JSON.stringify(preset[key])) {
+        changed[key] = agent[key] ?? null;
+      }
+    });
+    if (Object.keys(changed).length) {
+      edits[agent.id] = changed as PresetEdits;
+    }
+  });
+  return edits;
+}
+
+function applyPresetEdits(preset: Agent, edits: PresetEdits = {}): Agent {
+  const agent: Record<string, unknown> = { ...preset };
+  Object.entries(edits).forEach(([key, value]) => {
+    if (value === null) {
+      delete agent[key];
+    } else {
+      agent[key] = value;
+    }
+  });
+  return agent as Agent;
+}
+
+type PersistedAgentState = {
+  currentId: string;
+  // What the user changed in each preset, by id
+  presetEdits: Record<string, PresetEdits>;
+  availablePersonal: Agent[];
+};
+
+export const useAgent = create<AgentState>()(
+  persist(
+    (set, get) => ({
+      current: NewsAgent,
+      availablePresets: PRESET_AGENTS,
+      availablePersonal: [],
+
+      addAgent: (agent: Agent) => {
+        set(state => ({
+          availablePersonal: [...state.availablePersonal, agent],
+          current: agent,
+        }));
+      },
+      setCurrent: (agent: Agent | string) => {
+        const agentToSet =
+          typeof agent === 'string' ? getAgentById(agent) : agent;
+        if (!agentToSet) {
+          console.error(`Agent with id "${agent}" not found.`);
+          return;
+        }
+        set({ current: agentToSet });
+      },
+      update: (agentId: string, adjustments: Partial<Agent>) => {
+        let agent = getAgentById(agentId);
+        if (!agent) return;
+        const updatedAgent = { ...agent, ...adjustments };
+        set(state => ({
+          availablePresets: state.availablePresets.map(a =>
+            a.id === agentId ? updatedAgent : a
+          ),
+          availablePersonal: state.availablePersonal.map(a =>
+            a.id === agentId ? updatedAgent : a
+          ),
+          current: state.current.id === agentId ? updatedAgent : state.current,
+        }));
+      },
+      resetPreset: (agentId: string) => {
+        const factoryAgent = PRESET_AGENTS.find(a => a.id === agentId);
+        if (!factoryAgent) {
+          console.error(`Preset with id "${agentId}" not found.`);
+          return;
+        }
+        set(state => ({
+          availablePresets: state.availablePresets.map(a =>
+            a.id === agentId ? factoryAgent : a
+          ),
+          current: state.current.id === agentId ? factoryAgent : state.current,
+        }));
+      },
+      // Adds agents to the personal list, giving agents whose id is already
+      // taken a new one so nothing gets overwritten.
+      importAgents: (agents: Agent[]) => {
+        const { availablePresets, availablePersonal } = get();
+        const takenIds = new Set(
+          [...availablePresets, ...availablePersonal].map(a => a.id)
+        );
+        const imported = agents.map(agent => {
+          const id = takenIds.has(agent.id) ? createAgentId() : agent.id;
+          takenIds.add(id);
+          return { ...agent, id };
+        });
+        set(state => ({
+          availablePersonal: [...state.availablePersonal, ...imported],
+        }));
+        return imported;
+      },
+    }),
+    createPersistOptions<AgentState, PersistedAgentState>({
+      name: 'agents',
+      version: 2,
+      partialize: ({ current, availablePresets, availablePersonal }) => ({
+        currentId: current.id,
+        presetEdits: collectPresetEdits(availablePresets),
+        availablePersonal,
+      }),
+      migrations: {
+        // Presets were stored whole, which froze them at the version they
+        // were saved with
+        2: ({ availablePresets, ...state }) => ({
+          ...state,
+          presetEdits: collectPresetEdits(
+            (availablePresets as Agent[] | undefined) || [],
+            false
+          ),
+        }),
+      },
+      // Presets always follow the factory list so that presets added or
+      // removed in code show up; persisted edits are applied on top by id.
+      merge: (persisted, current) => {
+        if (!persisted) return current;
+        const availablePresets = PRESET_AGENTS.map(preset =>
+          applyPresetEdits(preset, persisted.presetEdits?.[preset.id])
+        );
+        const availablePersonal = persisted.availablePersonal || [];
+        const currentAgent =
+          availablePersonal.find(a => a.id === persisted.currentId) ||
+          availablePresets.find(a => a.id === persisted.currentId) ||
+          current.current;
+        return {
+          ...current,
+          availablePresets,
+          availablePersonal,
+          current: currentAgent,
+        };
+      },
+    })
+  )
+);
+
+/**
+ * Audio settings
+ */
+export type AudioOutputOptions = {
+  // Leave unset to use the system default speaker
+  deviceId?: string;
+  // Master volume between 0 and 1
+  volume: number;
+  // Seconds the agent's voice fades out for when interrupted
+  fadeOutTime?: number;
+};
+
+type AudioSettingsState = {
+  input: AudioInputOptions;
+  setInput: (adjustments: Partial<AudioInputOptions>) => void;
+  output: AudioOutputOptions;
+  setOutput: (adjustments: Partial<AudioOutputOptions>) => void;
+  speakerMuted: boolean;
+  setSpeakerMuted: (muted: boolean) => void;
+  turnDetection: TurnDetection;
+  setTurnDetection: (turnDetection: TurnDetection) => void;
+};
+
+export const useAudioSettings = create<AudioSettingsState>()(
+  persist(
+    set => ({
+      input: {
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+      },
+      setInput: (adjustments: Partial<AudioInputOptions>) =>
+        set(state => ({ input: { ...state.input, ...adjustments } })),
+      output: { volume: 1 },
+      setOutput: (adjustments: Partial<AudioOutputOptions>) =>
+        set(state => ({ output: { ...state.output, ...adjustments } })),
+      speakerMuted: false,
+      setSpeakerMuted: (muted: boolean) => set({ speakerMuted: muted }),
+      turnDetection: 'server',
+      setTurnDetection: (turnDetection: TurnDetection) =>
+        set({ turnDetection }),
+    }),
+    createPersistOptions<
+      AudioSettingsState,
+      Pick<AudioSettingsState, 'input' | 'output' | 'turnDetection'>
+    >({
+      name: 'audio',
+      version: 1,
+      partialize: ({ input, output, turnDetection }) => ({
+        input,
+        output,
+        turnDetection,
+      }),
+    })
+  )
+);
+
+/**
+ * Microphone level
+ */
+type MicLevelState = {
+  // Volume of the user's microphone while it is streaming, otherwise 0
+  level: number;
+  setLevel: (level: number) => void;
+};
+
+// Updated many times a second, read it with `getState()` in animations
+export const useMicLevel = create<MicLevelState>()(set => ({
+  level: 0,
+  setLevel: (level: number) => set({ level }),
+}));
+
+/**
+ * Agent output
+ */
+type AgentOutputState = {
+  // Volume of the agent's voice in the live session
+  volume: number;
+  // Spectrum and mouth shape of the agent's voice
+  speech: SpeechFeatures;
+  setSpeech: (speech: SpeechFeatures) => void;
+};
+
+// Updated many times a second, read it with `getState()` in animations
+export const useAgentOutput = create<AgentOutputState>()(set => ({
+  volume: 0,
+  speech: { volume: 0, bands: [], viseme: 'closed' },
+  setSpeech: (speech: SpeechFeatures) =>
+    set({ volume: speech.volume, speech }),
 }));
 
+/**
+ * Panel volumes
+ */
+type PanelVolumesState = {
+  // Volume of each panelist's voice, by agent id
+  volumes: Record<string, number>;
+  setVolume: (agentId: string, volume: number) => void;
+  reset: () => void;
+};
+
+// Updated many times a second, read it with `getState()` in animations
+export const usePanelVolumes = create<PanelVolumesState>()(set => ({
+  volumes: {},
+  setVolume: (agentId: string, volume: number) =>
+    set(state => ({ volumes: { ...state.volumes, [agentId]: volume } })),
+  reset: () => set({ volumes: {} }),
+}));
+
+/**
+ * Panel
+ */
+type PanelState = {
+  // Agents taking part in the panel, in speaking order
+  agentIds: string[];
+  policy: ModeratorPolicy;
+  toggleAgent: (agentId: string) => void;
+  setPolicy: (policy: ModeratorPolicy) => void;
+};
+
+export const usePanel = create<PanelState>()(
+  persist(
+    set => ({
+      agentIds: [Paul.id, Charlotte.id],
+      policy: 'round-robin',
+      toggleAgent: (agentId: string) =>
+        set(state => {
+          if (state.agentIds.includes(agentId)) {
+            return { agentIds: state.agentIds.filter(id => id !== agentId) };
+          }
+          if (state.agentIds.length >= MAX_PANELISTS) {
+            return state;
+          }
+          return { agentIds: [...state.agentIds, agentId] };
+        }),
+      setPolicy: (policy: ModeratorPolicy) => set({ policy }),
+    }),
+    createPersistOptions<PanelState, Pick<PanelState, 'agentIds' | 'policy'>>(
+      {
+        name: 'panel',
+        version: 1,
+        partialize: ({ agentIds, policy }) => ({ agentIds, policy }),
+      }
+    )
+  )
+);
+
 /**
  * UI
  */
-export const useUI = create<{
+type UIState = {
   showUserConfig: boolean;
   setShowUserConfig: (show: boolean) => void;
   showAgentEdit: boolean;
   setShowAgentEdit: (show: boolean) => void;
   useGrounding: boolean;
   setUseGrounding: (use: boolean) => void;
-}>(set => ({
-  showUserConfig: false,
-  setShowUserConfig: (show: boolean) => set({ showUserConfig: show }),
-  showAgentEdit: false,
-  setShowAgentEdit: (show: boolean) => set({ showAgentEdit: show }),
-  useGrounding: false,
-  setUseGrounding: (use: boolean) => set({ useGrounding: use }),
-}));
+  // Whether the model answers in text instead of speech
+  textOnly: boolean;
+  setTextOnly: (textOnly: boolean) => void;
+  // Frames per second sent from the camera or shared screen
+  videoFps: number;
+  setVideoFps: (fps: number) => void;
+  showPanel: boolean;
+  setShowPanel: (show: boolean) => void;
+  // An agent received through a share link, waiting to be added
+  sharedAgent: Agent | null;
+  setSharedAgent: (agent: Agent | null) => void;
+  // Why the share link the app was opened with could not be read
+  sharedAgentError: string | null;
+  setSharedAgentError: (error: string | null) => void;
+};
+
+export const useUI = create<UIState>()(
+  persist(
+    set => ({
+      showUserConfig: false,
+      setShowUserConfig: (show: boolean) => set({ showUserConfig: show }),
+      showAgentEdit: false,
+      setShowAgentEdit: (show: boolean) => set({ showAgentEdit: show }),
+      useGrounding: false,
+      setUseGrounding: (use: boolean) => set({ useGrounding: use }),
+      textOnly: false,
+      setTextOnly: (textOnly: boolean) => set({ textOnly }),
+      videoFps: 1,
+      setVideoFps: (fps: number) => set({ videoFps: fps }),
+      showPanel: false,
+      setShowPanel: (show: boolean) => set({ showPanel: show }),
+      sharedAgent: null,
+      setSharedAgent: (agent: Agent | null) => set({ sharedAgent: agent }),
+      sharedAgentError: null,
+      setSharedAgentError: (error: string | null) =>
+        set({ sharedAgentError: error }),
+    }),
+    // Modal visibility is transient, only preferences are persisted
+    createPersistOptions<
+      UIState,
+      Pick<UIState, 'useGrounding' | 'textOnly' | 'videoFps'>
+    >({
+      name: 'ui',
+      version: 1,
+      partialize: ({ useGrounding, textOnly, videoFps }) => ({
+        useGrounding,
+        textOnly,
+        videoFps,
+      }),
+    })
+  )
+);
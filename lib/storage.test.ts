@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createPersistOptions, Migrations } from './storage';
+
+type State = { name: string; color?: string; size?: number };
+
+function migrate(
+  persisted: unknown,
+  fromVersion: number,
+  migrations: Migrations,
+  version = 3
+) {
+  const options = createPersistOptions<State>({
+    name: 'test',
+    version,
+    partialize: state => state,
+    migrations,
+  });
+  return options.migrate!(persisted, fromVersion);
+}
+
+describe('createPersistOptions', () => {
+  it('prefixes the storage key', () => {
+    const options = createPersistOptions<State>({
+      name: 'agents',
+      version: 1,
+      partialize: state => state,
+    });
+    expect(options.name).toBe('chatterbots-agents');
+    expect(options.version).toBe(1);
+  });
+
+  it('applies every migration after the stored version in order', () => {
+    const migrations: Migrations = {
+      2: state => ({ ...state, color: 'red' }),
+      3: state => ({ ...state, size: String(state.color).length }),
+    };
+    expect(migrate({ name: 'Paul' }, 1, migrations)).toEqual({
+      name: 'Paul',
+      color: 'red',
+      size: 3,
+    });
+  });
+
+  it('skips migrations up to the stored version', () => {
+    const migrations: Migrations = {
+      2: () => {
+        throw new Error('Should not run');
+      },
+      3: state => ({ ...state, size: 1 }),
+    };
+    expect(migrate({ name: 'Paul', color: 'blue' }, 2, migrations)).toEqual({
+      name: 'Paul',
+      color: 'blue',
+      size: 1,
+    });
+  });
+
+  it('skips versions without a migration', () => {
+    const migrations: Migrations = { 3: state => ({ ...state, size: 2 }) };
+    expect(migrate({ name: 'Paul' }, 1, migrations)).toEqual({
+      name: 'Paul',
+      size: 2,
+    });
+  });
+
+  it('migrates missing state from an empty object', () => {
+    const migrations: Migrations = { 2: state => ({ name: 'New', ...state }) };
+    expect(migrate(undefined, 1, migrations, 2)).toEqual({ name: 'New' });
+  });
+});
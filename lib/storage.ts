@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createJSONStorage, PersistOptions } from 'zustand/middleware';
+
+const STORAGE_PREFIX = 'chatterbots';
+
+/**
+ * State as it was written by an earlier version of a store.
+ */
+export type PersistedState = Record<string, unknown>;
+
+/**
+ * A migration upgrades persisted state from the previous version to the
+ * version it is keyed by, e.g. `migrations[2]` turns v1 state into v2 state.
+ */
+export type Migrations = Record<
+  number,
+  (state: PersistedState) => PersistedState
+>;
+
+/**
+ * Builds `persist` middleware options for a store. Every store is written to
+ * localStorage under its own key and carries a version number; when the
+ * stored version is older than `version`, each migration in between is
+ * applied in order before the state is merged back into the store.
+ */
+export function createPersistOptions<S, P = Partial<S>>({
+  name,
+  version,
+  partialize,
+  migrations = {},
+  merge,
+}: {
+  name: string;
+  version: number;
+  partialize: (state: S) => P;
+  migrations?: Migrations;
+  merge?: (persisted: P, current: S) => S;
+}): PersistOptions<S, P> {
+  return {
+    name: `${STORAGE_PREFIX}-${name}`,
+    version,
+    storage: createJSONStorage(() => localStorage),
+    partialize,
+    migrate: (persisted, fromVersion) => {
+      let state = (persisted ?? {}) as PersistedState;
+      for (let v = fromVersion + 1; v <= version; v++) {
+        if (migrations[v]) {
+          state = migrations[v](state);
+        }
+      }
+      return state as P;
+    },
+    ...(merge && {
+      merge: (persisted, current) => merge(persisted as P, current),
+    }),
+  };
+}
@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  FunctionCall,
+  FunctionDeclaration,
+  FunctionResponse,
+  LiveServerToolCall,
+  LiveServerToolCallCancellation,
+} from '@google/genai';
+import { GenAILiveClient } from './genai-live-client';
+import { MessageKey } from './i18n';
+
+// Arguments the model calls a function with, as described by its schema
+type ToolArgs = Record<string, unknown>;
+
+/**
+ * A function the model can call during a live session.
+ */
+export type ToolDefinition<Args extends ToolArgs = ToolArgs> = {
+  // Name the model calls the function by
+  name: string;
+  // Explains the model when and why to call the function
+  description: string;
+  // Explains users what the tool does in the agent editor, which shows the
+  // description when unset
+  label?: MessageKey;
+  // JSON schema of the object passed as `args`
+  parameters?: object;
+  // Resolves with the output sent back to the model. The signal aborts when
+  // the server cancels the call or the timeout elapses. The client is the
+  // session that made the call.
+  handler: (
+    args: Args,
+    signal: AbortSignal,
+    client: GenAILiveClient
+  ) => Promise<unknown>;
+  // Time after which the call is aborted and answered with an error
+  timeoutMs?: number;
+};
+
+const DEFAULT_TOOL_TIMEOUT_MS = 10000;
+
+const registeredTools: Map<string, ToolDefinition> = new Map();
+
+export function registerTool<Args extends ToolArgs>(
+  tool: ToolDefinition<Args>
+) {
+  if (registeredTools.has(tool.name)) {
+    console.warn(`Tool "${tool.name}" is already registered, replacing it.`);
+  }
+  registeredTools.set(tool.name, tool);
+}
+
+export function unregisterTool(name: string) {
+  registeredTools.delete(name);
+}
+
+export function getRegisteredTools(): ToolDefinition[] {
+  return Array.from(registeredTools.values());
+}
+
+/**
+ * Creates the function declarations for the given tool names, skipping any
+ * that are not registered.
+ */
+export function createFunctionDeclarations(
+  names: string[]
+): FunctionDeclaration[] {
+  return names.flatMap(name => {
+    const tool = registeredTools.get(name);
+    if (!tool) {
+      console.warn(`Tool "${name}" is not registered.`);
+      return [];
+    }
+    return [
+      {
+        name: tool.name,
+        description: tool.description,
+        ...(tool.parameters && { parametersJsonSchema: tool.parameters }),
+      },
+    ];
+  });
+}
+
+/**
+ * Answers the tool calls of a client with the registered tools and sends the
+ * function responses back as each call settles.
+ */
+export class ToolDispatcher {
+  // Pending calls by id
+  private pending: Map<string, AbortController> = new Map();
+  // Responses that settled while the session was being resumed
+  private queued: FunctionResponse[] = [];
+
+  constructor(private client: GenAILiveClient) {
+    this.onToolCall = this.onToolCall.bind(this);
+    this.onToolCallCancellation = this.onToolCallCancellation.bind(this);
+    this.onResumed = this.onResumed.bind(this);
+    this.onClose = this.onClose.bind(this);
+    this.client.on('toolcall', this.onToolCall);
+    this.client.on('toolcallcancellation', this.onToolCallCancellation);
+    this.client.on('resumed', this.onResumed);
+    this.client.on('close', this.onClose);
+  }
+
+  dispose() {
+    this.client.off('toolcall', this.onToolCall);
+    this.client.off('toolcallcancellation', this.onToolCallCancellation);
+    this.client.off('resumed', this.onResumed);
+    this.client.off('close', this.onClose);
+    this.pending.forEach(controller => controller.abort());
+    this.pending.clear();
+    this.queued = [];
+  }
+
+  private onToolCall(toolCall: LiveServerToolCall) {
+    toolCall.functionCalls?.forEach(call => {
+      this.dispatch(call).catch(error => {
+        console.error(`Error handling tool call "${call.name}":`, error);
+      });
+    });
+  }
+
+  private onToolCallCancellation({ ids }: LiveServerToolCallCancellation) {
+    ids?.forEach(id => {
+      this.pending.get(id)?.abort(new Error('Cancelled by the server'));
+      this.pending.delete(id);
+    });
+  }
+
+  private onResumed() {
+    const functionResponses = this.queued;
+    this.queued = [];
+    if (functionResponses.length) {
+      this.client.sendToolResponse({ functionResponses });
+    }
+  }
+
+  private onClose() {
+    this.queued.forEach(({ name }) => {
+      console.warn(`Dropped the response to "${name}", the session closed.`);
+    });
+    this.queued = [];
+  }
+
+  private async dispatch(call: FunctionCall) {
+    const { id, name = '', args = {} } = call;
+    const tool = registeredTools.get(name);
+    if (!tool) {
+      this.respond({ id, name, response: { error: `Unknown tool "${name}"` } });
+      return;
+    }
+
+    const controller = new AbortController();
+    const key = id || name;
+    this.pending.set(key, controller);
+    const timeout = setTimeout(
+      () => controller.abort(new Error('Timed out')),
+      tool.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS
+    );
+
+    let response: Record<string, unknown>;
+    try {
+      const output = await Promise.race([
+        tool.handler(args, controller.signal, this.client),
+        new Promise<never>((_, reject) => {
+          controller.signal.addEventListener('abort', () =>
+            reject(controller.signal.reason)
+          );
+        }),
+      ]);
+      response = { output };
+    } catch (error) {
+      response = {
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    // Cancelled calls must not be answered
+    if (this.pending.get(key) !== controller) {
+      return;
+    }
+    this.pending.delete(key);
+    this.respond({ id, name, response });
+  }
+
+  private respond(functionResponse: FunctionResponse) {
+    if (this.client.status === 'reconnecting') {
+      // Sent once the session is resumed
+      this.queued.push(functionResponse);
+      return;
+    }
+    if (this.client.status !== 'connected') {
+      const { name } = functionResponse;
+      console.warn(`Dropped the response to "${name}", the session closed.`);
+      return;
+    }
+    this.client.sendToolResponse({ functionResponses: [functionResponse] });
+  }
+}
+
+/**
+ * Built-in tools
+ */
+registerTool({
+  name: 'get_current_time',
+  description:
+    "Returns the user's current local date and time, including the time zone.",
+  label: 'tool.get_current_time',
+  handler: async () => ({
+    time: new Date().toString(),
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  }),
+});
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * A single turn of the conversation as transcribed by the Live API.
+ * Turns stay open (`final: false`) while partial text is still arriving.
+ */
+export type TranscriptTurn = {
+  id: string;
+  role: 'user' | 'agent';
+  text: string;
+  final: boolean;
+  // Milliseconds since epoch when the first text of the turn arrived
+  timestamp: number;
+  // Set when the user interrupted the agent before it finished speaking
+  truncated?: {
+    // Seconds of audio played before the interruption
+    played: number;
+    // Estimate of the text spoken up to the interruption
+    heardText: string;
+  };
+};
+
+let nextTurnId = 0;
+
+/**
+ * Appends a transcription fragment to the transcript. The fragment extends
+ * the last turn if it is still open and from the same speaker, otherwise it
+ * closes any open turns and starts a new one.
+ */
+export function appendTranscription(
+  turns: TranscriptTurn[],
+  role: TranscriptTurn['role'],
+  text: string,
+  finished: boolean
+): TranscriptTurn[] {
+  const last = turns[turns.length - 1];
+  if (last && last.role === role && !last.final) {
+    return [
+      ...turns.slice(0, -1),
+      { ...last, text: last.text + text, final: finished },
+    ];
+  }
+  if (!text) {
+    return turns;
+  }
+  return [
+    ...finalizeTurns(turns),
+    {
+      id: `turn-${nextTurnId++}`,
+      role,
+      text,
+      final: finished,
+      timestamp: Date.now(),
+    },
+  ];
+}
+
+/**
+ * Marks the agent's latest turn as truncated after an interruption. The text
+ * is kept in full; the part the user heard is estimated from the share of
+ * the audio that was played, rounded to the end of a word.
+ */
+export function truncateTurn(
+  turns: TranscriptTurn[],
+  played: number,
+  total: number
+): TranscriptTurn[] {
+  let index = turns.length - 1;
+  while (index >= 0 && turns[index].role !== 'agent') index--;
+  const turn = turns[index];
+  if (!turn || turn.truncated || total <= 0 || played >= total) {
+    return turns;
+  }
+
+  const cut = Math.round(turn.text.length * (played / total));
+  const wordEnd = turn.text.slice(cut).search(/\s|$/);
+  const heardText = turn.text.slice(0, cut + wordEnd).trimEnd();
+  return turns.map((t, i) =>
+    i === index ? { ...t, final: true, truncated: { played, heardText } } : t
+  );
+}
+
+/**
+ * Marks every open turn as final, e.g. when the model completes its turn or
+ * is interrupted.
+ */
+export function finalizeTurns(turns: TranscriptTurn[]): TranscriptTurn[] {
+  if (turns.every(turn => turn.final)) {
+    return turns;
+  }
+  return turns.map(turn => (turn.final ? turn : { ...turn, final: true }));
+}
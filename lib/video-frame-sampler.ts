@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import EventEmitter from 'eventemitter3';
+
+export type VideoFrameSamplerOptions = {
+  // Frames sent per second
+  fps?: number;
+  // Longest side of a frame in pixels; larger frames are scaled down
+  maxSize?: number;
+  // JPEG quality between 0 and 1
+  quality?: number;
+};
+
+type VideoFrameSamplerEvents = {
+  frame: (frame: { mimeType: string; data: string }) => void;
+};
+
+/**
+ * Samples frames from a video stream at a fixed rate and emits them as
+ * base64 encoded JPEGs, ready for `sendRealtimeInput`.
+ */
+export class VideoFrameSampler {
+  private video: HTMLVideoElement;
+  private canvas: HTMLCanvasElement;
+  private interval: number | null = null;
+  private emitter = new EventEmitter<VideoFrameSamplerEvents>();
+
+  private fps: number;
+  private maxSize: number;
+  private quality: number;
+
+  constructor(
+    stream: MediaStream,
+    { fps = 1, maxSize = 640, quality = 0.7 }: VideoFrameSamplerOptions = {}
+  ) {
+    this.fps = fps;
+    this.maxSize = maxSize;
+    this.quality = quality;
+
+    this.video = document.createElement('video');
+    this.video.muted = true;
+    this.video.playsInline = true;
+    this.video.srcObject = stream;
+    this.canvas = document.createElement('canvas');
+  }
+
+  on<K extends keyof VideoFrameSamplerEvents>(
+    event: K,
+    listener: VideoFrameSamplerEvents[K]
+  ): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  off<K extends keyof VideoFrameSamplerEvents>(
+    event: K,
+    listener?: VideoFrameSamplerEvents[K]
+  ): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  async start() {
+    await this.video.play();
+    this.interval = window.setInterval(
+      () => this.sample(),
+      1000 / this.fps
+    );
+  }
+
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    this.video.pause();
+    this.video.srcObject = null;
+  }
+
+  private sample() {
+    const { videoWidth, videoHeight } = this.video;
+    if (!videoWidth || !videoHeight) {
+      return;
+    }
+
+    const scale = Math.min(1, this.maxSize / Math.max(videoWidth, videoHeight));
+    this.canvas.width = Math.round(videoWidth * scale);
+    this.canvas.height = Math.round(videoHeight * scale);
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) {
+      return;
+    }
+    ctx.drawImage(this.video, 0, 0, this.canvas.width, this.canvas.height);
+
+    const dataUrl = this.canvas.toDataURL('image/jpeg', this.quality);
+    this.emitter.emit('frame', {
+      mimeType: 'image/jpeg',
+      data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+    });
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const PlaybackWorklet = `
+  class Playback extends AudioWorkletProcessor {
+    constructor(options) {
+      super()
+      const { inputSampleRate = 24000 } = options.processorOptions || {}
+      this.inputSampleRate = inputSampleRate
+      // Source samples consumed per output frame
+      this.step = inputSampleRate / sampleRate
+      this.capacity = inputSampleRate * 60
+      this.ring = new Float32Array(this.capacity)
+      // Absolute positions in source samples; reading may be fractional
+      this.readPos = 0
+      this.writePos = 0
+      // idle: no response, buffering: waiting to fill the jitter buffer
+      this.state = 'idle'
+      // Adaptive jitter buffer, in seconds
+      this.target = 0.1
+      this.minTarget = 0.05
+      this.maxTarget = 1
+      // An empty buffer for this long ends the response rather than
+      // counting as an underrun
+      this.endGap = 1
+      this.starvedAt = null
+      this.lastWriteFrame = 0
+      this.stableFrames = 0
+      this.fadeRemaining = 0
+      this.fadeLength = 0
+      this.flushed = false
+      this.generation = 0
+      this.played = 0
+      this.underruns = 0
+      this.overruns = 0
+      this.nextStatusFrame = 0
+      this.port.onmessage = event => {
+        const { type } = event.data
+        if (type === 'write') this.write(event.data.samples)
+        if (type === 'flush') this.flush(event.data)
+      }
+    }
+
+    get buffered() {
+      return this.writePos - this.readPos
+    }
+
+    write(samples) {
+      this.flushed = false
+      if (this.state === 'idle') {
+        this.state = 'buffering'
+        this.played = 0
+      } else if (this.starvedAt !== null) {
+        // The stream resumed after running dry mid-response
+        this.underruns++
+        this.target = Math.min(this.maxTarget, this.target * 1.5)
+        this.stableFrames = 0
+      }
+      this.starvedAt = null
+      this.lastWriteFrame = currentFrame
+
+      const overflow = this.buffered + samples.length - this.capacity
+      if (overflow > 0) {
+        // Drop the oldest audio rather than the newest
+        this.overruns++
+        this.readPos += overflow
+      }
+      for (let i = 0; i < samples.length; i++) {
+        this.ring[(this.writePos + i) % this.capacity] = samples[i]
+      }
+      this.writePos += samples.length
+    }
+
+    flush({ fadeTime, generation }) {
+      // Only keep what is played while fading out
+      const fadeFrames = Math.floor(fadeTime * sampleRate)
+      const tail = Math.min(this.buffered, fadeFrames * this.step)
+      this.writePos = Math.floor(this.readPos + tail)
+      this.fadeLength = Math.floor(tail / this.step)
+      this.fadeRemaining = this.fadeLength
+      this.flushed = true
+      this.starvedAt = null
+      this.played = 0
+      this.generation = generation
+      if (!this.fadeLength) {
+        this.state = 'idle'
+        this.flushed = false
+      }
+      this.postStatus()
+    }
+
+    postStatus() {
+      this.port.postMessage({
+        type: 'status',
+        generation: this.generation,
+        playing: this.state === 'playing',
+        time: currentTime,
+        played: this.played / this.inputSampleRate,
+        buffered: this.buffered / this.inputSampleRate,
+        target: this.target,
+        underruns: this.underruns,
+        overruns: this.overruns,
+      })
+    }
+
+    process(inputs, outputs) {
+      const output = outputs[0][0]
+      if (!output) return true
+      const targetSamples = this.target * this.inputSampleRate
+      const quiet = (currentFrame - this.lastWriteFrame) / sampleRate
+
+      if (this.state === 'buffering') {
+        if (this.buffered >= targetSamples || (this.buffered > 0 && quiet >= this.target)) {
+          // Full, or nothing more is coming for now
+          this.state = 'playing'
+        } else if (this.starvedAt !== null && (currentFrame - this.starvedAt) / sampleRate >= this.endGap) {
+          this.endResponse()
+        }
+      }
+
+      if (this.state === 'playing') {
+        for (let i = 0; i < output.length; i++) {
+          const index = Math.floor(this.readPos)
+          if (index >= this.writePos) {
+            output.fill(0, i)
+            this.starve()
+            break
+          }
+          // Linear interpolation converts to the context's sample rate
+          const fraction = this.readPos - index
+          const current = this.ring[index % this.capacity]
+          const next = index + 1 < this.writePos ? this.ring[(index + 1) % this.capacity] : current
+          let sample = current + (next - current) * fraction
+          if (this.fadeRemaining > 0) {
+            sample *= this.fadeRemaining / this.fadeLength
+            this.fadeRemaining--
+            if (!this.fadeRemaining) this.played = 0
+          }
+          output[i] = sample
+          this.readPos += this.step
+          this.played += this.step
+        }
+        if (this.state === 'playing') {
+          this.stableFrames += output.length
+          if (this.stableFrames >= sampleRate * 10) {
+            // Tighten the buffer again after a stretch without underruns
+            this.target = Math.max(this.minTarget, this.target * 0.9)
+            this.stableFrames = 0
+          }
+        }
+      }
+
+      if (this.state !== 'idle' && currentFrame >= this.nextStatusFrame) {
+        this.nextStatusFrame = currentFrame + sampleRate * 0.025
+        this.postStatus()
+      }
+      return true
+    }
+
+    starve() {
+      this.readPos = this.writePos
+      if (this.flushed) {
+        // The faded tail of an interrupted response is done
+        this.flushed = false
+        this.endResponse()
+        return
+      }
+      this.state = 'buffering'
+      this.starvedAt = currentFrame
+    }
+
+    endResponse() {
+      this.state = 'idle'
+      this.starvedAt = null
+      this.played = 0
+      this.postStatus()
+      this.port.postMessage({ type: 'ended' })
+    }
+  }`;
+
+export default PlaybackWorklet;
@@ -0,0 +1,144 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Rough mouth shapes that can be told apart from the speech spectrum.
+ */
+export type Viseme = 'open' | 'wide' | 'round' | 'closed';
+
+/**
+ * Posted by the speech analysis worklet for every update.
+ */
+export type SpeechFeatures = {
+  volume: number;
+  // Share of the energy in each band, low to high
+  bands: number[];
+  viseme: Viseme;
+};
+
+// Centre frequencies of the bands. The first formant of open vowels falls in
+// the second band, the second formant of spread vowels in the third.
+export const SPEECH_BANDS = [250, 700, 1800, 4000];
+
+const SpeechAnalysisWorklet = `
+  class SpeechAnalysis extends AudioWorkletProcessor {
+    constructor() {
+      super()
+      this.volume = 0
+      this.updateIntervalInMS = 25
+      this.nextUpdateFrame = this.updateIntervalInMS
+      // Below this level the mouth is closed
+      this.silenceLevel = 0.02
+      this.filters = ${JSON.stringify(SPEECH_BANDS)}.map(frequency =>
+        this.bandpass(frequency, 1.2)
+      )
+      this.energies = this.filters.map(() => 0)
+      this.viseme = 'closed'
+      this.candidate = 'closed'
+      // Only the update rate and the silence level can be tuned
+      this.port.onmessage = event => {
+        for (const key of ['updateIntervalInMS', 'silenceLevel']) {
+          if (typeof event.data[key] === 'number') {
+            this[key] = event.data[key]
+          }
+        }
+      }
+    }
+
+    get intervalInFrames() {
+      return (this.updateIntervalInMS / 1000) * sampleRate
+    }
+
+    // Biquad band-pass coefficients, from the Audio EQ Cookbook
+    bandpass(frequency, q) {
+      const w0 = (2 * Math.PI * frequency) / sampleRate
+      const alpha = Math.sin(w0) / (2 * q)
+      const a0 = 1 + alpha
+      return {
+        b0: alpha / a0,
+        b2: -alpha / a0,
+        a1: (-2 * Math.cos(w0)) / a0,
+        a2: (1 - alpha) / a0,
+        x1: 0, x2: 0, y1: 0, y2: 0,
+      }
+    }
+
+    classify(bands) {
+      if (this.volume < this.silenceLevel) return 'closed'
+      if (bands[2] > 0.3) return 'wide'
+      if (bands[0] > 0.55 && bands[1] < 0.3) return 'round'
+      return 'open'
+    }
+
+    process(inputs) {
+      const input = inputs[0]
+
+      if (input.length > 0) {
+        const samples = input[0]
+        let sum = 0
+
+        for (let i = 0; i < samples.length; ++i) {
+          sum += samples[i] * samples[i]
+        }
+        const rms = Math.sqrt(sum / samples.length)
+        this.volume = Math.max(rms, this.volume * 0.7)
+
+        this.filters.forEach((f, band) => {
+          let energy = 0
+          for (let i = 0; i < samples.length; ++i) {
+            const x = samples[i]
+            const y = f.b0 * x + f.b2 * f.x2 - f.a1 * f.y1 - f.a2 * f.y2
+            f.x2 = f.x1
+            f.x1 = x
+            f.y2 = f.y1
+            f.y1 = y
+            energy += y * y
+          }
+          // Smooth out single render quanta
+          this.energies[band] =
+            this.energies[band] * 0.8 + (energy / samples.length) * 0.2
+        })
+
+        this.nextUpdateFrame -= samples.length
+        if (this.nextUpdateFrame < 0) {
+          this.nextUpdateFrame += this.intervalInFrames
+
+          const total = this.energies.reduce((a, b) => a + b, 0) || 1
+          const bands = this.energies.map(energy => energy / total)
+          // A shape has to hold for two updates, so the mouth does not flicker
+          const viseme = this.classify(bands)
+          if (viseme === this.candidate || viseme === 'closed') {
+            this.viseme = viseme
+          }
+          this.candidate = viseme
+
+          this.port.postMessage({
+            volume: this.volume,
+            bands,
+            viseme: this.viseme,
+          })
+        }
+      }
+
+      return true
+    }
+  }`;
+
+export default SpeechAnalysisWorklet;
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/**
+ * Copyright 2024 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const VADWorklet = `
+  class VAD extends AudioWorkletProcessor {
+    constructor() {
+      super()
+      this.speaking = false
+      // Running estimate of the background noise level
+      this.noiseFloor = 0.01
+      // Speech must be this many times louder than the noise floor
+      this.ratio = 3
+      // Absolute level below which nothing counts as speech
+      this.minLevel = 0.01
+      // Speech must last this long before it starts an activity
+      this.onsetMs = 60
+      // Silence must last this long before it ends an activity
+      this.hangoverMs = 500
+      this.onsetFrames = 0
+      this.silenceFrames = 0
+      // Only the thresholds can be tuned, the detection state stays private
+      this.port.onmessage = event => {
+        for (const key of ['ratio', 'minLevel', 'onsetMs', 'hangoverMs']) {
+          if (typeof event.data[key] === 'number') {
+            this[key] = event.data[key]
+          }
+        }
+      }
+    }
+
+    process(inputs) {
+      const input = inputs[0]
+
+      if (input.length > 0) {
+        const samples = input[0]
+        let sum = 0
+
+        for (let i = 0; i < samples.length; ++i) {
+          sum += samples[i] * samples[i]
+        }
+
+        const rms = Math.sqrt(sum / samples.length)
+        const isSpeech = rms > Math.max(this.noiseFloor * this.ratio, this.minLevel)
+
+        if (!this.speaking && !isSpeech) {
+          // Adapt slowly to the background noise
+          this.noiseFloor = Math.max(0.001, this.noiseFloor * 0.995 + rms * 0.005)
+        }
+
+        if (isSpeech) {
+          this.onsetFrames += samples.length
+          this.silenceFrames = 0
+          if (!this.speaking && this.onsetFrames >= (this.onsetMs / 1000) * sampleRate) {
+            this.speaking = true
+            this.port.postMessage({speaking: true})
+          }
+        } else {
+          this.onsetFrames = 0
+          this.silenceFrames += samples.length
+          if (this.speaking && this.silenceFrames >= (this.hangoverMs / 1000) * sampleRate) {
+            this.speaking = false
+            this.port.postMessage({speaking: false})
+          }
+        }
+      }
+
+      return true
+    }
+  }`;
+
+export default VADWorklet;